@@ -1,5 +1,7 @@
 import {
   ApplicationConfig,
+  inject,
+  provideAppInitializer,
   provideBrowserGlobalErrorListeners,
   provideZonelessChangeDetection,
 } from '@angular/core';
@@ -8,6 +10,18 @@ import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideAnimations } from '@angular/platform-browser/animations';
 
 import { authInterceptor } from './shared/interceptors/auth.interceptor';
+import { csrfInterceptor } from './shared/interceptors/csrf.interceptor';
+import {
+  MOCK_BACKEND_INTERCEPTORS,
+  MOCK_BACKEND_PROVIDERS,
+} from './shared/mock/mock-backend.providers';
+import {
+  ProgressStore,
+  LocalStorageProgressStore,
+  HttpProgressStore,
+} from './shared/services/progress-store.service';
+import { AuthService } from './shared/services/auth.service';
+import { APP_CONFIG } from './shared/config/app-config';
 import { routes } from './app.routes';
 
 /**
@@ -16,7 +30,9 @@ import { routes } from './app.routes';
  * @description
  * The main configuration object for the Angular application, defining the root providers
  * for essential services and features. This setup is used for bootstrapping the standalone
- * application.
+ * application. The runtime configuration (`APP_CONFIG`) is added in `main.ts` once it is loaded.
+ * Before the first navigation, the session is checked once, so the signed-in user is known
+ * after a page reload. The mock backend is only part of development builds.
  */
 export const appConfig: ApplicationConfig = {
   providers: [
@@ -24,6 +40,15 @@ export const appConfig: ApplicationConfig = {
     provideBrowserGlobalErrorListeners(),
     provideZonelessChangeDetection(),
     provideRouter(routes),
-    provideHttpClient(withInterceptors([authInterceptor])),    
+    provideHttpClient(withInterceptors([csrfInterceptor, authInterceptor, ...MOCK_BACKEND_INTERCEPTORS])),
+    ...MOCK_BACKEND_PROVIDERS,
+    provideAppInitializer(() => inject(AuthService).validateSession()),
+    {
+      provide: ProgressStore,
+      useFactory: () =>
+        inject(APP_CONFIG).features.progressSync
+          ? inject(HttpProgressStore)
+          : inject(LocalStorageProgressStore),
+    },
   ],
 };
@@ -1,4 +1,4 @@
-import { Routes } from '@angular/router';
+import { Routes, UrlMatchResult, UrlSegment } from '@angular/router';
 import { Main } from './main/main';
 import { Login } from './main/auth/login/login';
 import { Register } from './main/auth/register/register';
@@ -7,8 +7,28 @@ import { ForgotPassword } from './main/auth/forgot-password/forgot-password';
 import { ConfirmPassword } from './main/auth/confirm-password/confirm-password';
 import { Privacy } from './shared/privacy/privacy';
 import { Imprint } from './shared/imprint/imprint';
+import { NotFound } from './shared/not-found/not-found';
 import { AuthGuard } from './shared/guards/auth.guard';
 import { VideoList } from './pages/video-list/video-list';
+import { VideoSearch } from './pages/video-search/video-search';
+
+/**
+ * Matches the video list (`videos`) and the deep link to a single video (`videos/:id`).
+ *
+ * @description
+ * Both URLs share one route, so the router reuses the `VideoList` component when the user
+ * switches between videos, instead of recreating the list and reloading all videos.
+ * Only numeric IDs match; other paths fall through to the not-found page.
+ *
+ * @param {UrlSegment[]} segments The URL segments to match.
+ * @returns {UrlMatchResult | null} The match with the optional `id` parameter, or `null`.
+ */
+export function videosMatcher(segments: UrlSegment[]): UrlMatchResult | null {
+  if (segments[0]?.path !== 'videos' || segments.length > 2) return null;
+  if (segments.length === 1) return { consumed: segments };
+  if (!/^\d+$/.test(segments[1].path)) return null;
+  return { consumed: segments, posParams: { id: segments[1] } };
+}
 
 /**
  * @const {Routes} routes
@@ -43,20 +63,28 @@ export const routes: Routes = [
   // Static informational pages.
   { path: 'privacy', component: Privacy },
   { path: 'imprint', component: Imprint },
+  { path: 'not-found', component: NotFound },
 
   // =================================================================
   // Protected Routes (Require Authentication)
   // =================================================================
   // The main video listing page, accessible only to authenticated users.
+  // `videos/:id?t=<seconds>` opens a video in the player, optionally at a start time.
   {
-    path: 'videos',
+    matcher: videosMatcher,
     component: VideoList,
     canActivate: [AuthGuard],
   },
+  // The search results page; `videos/search?q=&category=&sort=` keeps the query in the URL.
+  {
+    path: 'videos/search',
+    component: VideoSearch,
+    canActivate: [AuthGuard],
+  },
 
   // =================================================================
   // Wildcard / Fallback Route
   // =================================================================
   // wildcard route that matches any path not defined above
-  { path: '**', redirectTo: '' },
+  { path: '**', component: NotFound },
 ];
@@ -1,6 +1,8 @@
 import { Component, signal } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { NotificationComponent } from './shared/notification/notification';
+import { PlayerDock } from './shared/player-dock/player-dock';
+import { SessionExpiryDialog } from './shared/session-expiry-dialog/session-expiry-dialog';
 
 /**
  * @Component
@@ -8,12 +10,14 @@ import { NotificationComponent } from './shared/notification/notification';
  *
  * @description
  * This component serves as the main entry point and container for the entire application.
- * It includes the `<router-outlet>` to display routed components and the global
+ * It includes the `<router-outlet>` to display routed components, the global
+ * `<app-player-dock>` hosting the main video player across routes, the global
+ * `<app-session-expiry-dialog>` warning before an inactive session expires, and the global
  * `<app-notification>` component for displaying toast messages.
  */
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, NotificationComponent],
+  imports: [RouterOutlet, NotificationComponent, PlayerDock, SessionExpiryDialog],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
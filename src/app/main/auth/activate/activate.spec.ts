@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
 
 import { Activate } from './activate';
+import { provideMockBackend } from '../../../shared/mock/provide-mock-backend';
 
 describe('Activate', () => {
   let component: Activate;
@@ -8,7 +10,8 @@ describe('Activate', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [Activate]
+      imports: [Activate],
+      providers: [provideRouter([]), provideMockBackend()]
     })
     .compileComponents();
 
@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
 
 import { ConfirmPassword } from './confirm-password';
+import { provideMockBackend } from '../../../shared/mock/provide-mock-backend';
 
 describe('ConfirmPassword', () => {
   let component: ConfirmPassword;
@@ -8,7 +10,8 @@ describe('ConfirmPassword', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [ConfirmPassword]
+      imports: [ConfirmPassword],
+      providers: [provideRouter([]), provideMockBackend()]
     })
     .compileComponents();
 
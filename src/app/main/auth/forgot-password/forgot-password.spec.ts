@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
 
 import { ForgotPassword } from './forgot-password';
+import { provideMockBackend } from '../../../shared/mock/provide-mock-backend';
 
 describe('ForgotPassword', () => {
   let component: ForgotPassword;
@@ -8,7 +10,8 @@ describe('ForgotPassword', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [ForgotPassword]
+      imports: [ForgotPassword],
+      providers: [provideRouter([]), provideMockBackend()]
     })
     .compileComponents();
 
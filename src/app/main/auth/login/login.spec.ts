@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
 
 import { Login } from './login';
+import { provideMockBackend } from '../../../shared/mock/provide-mock-backend';
 
 describe('Login', () => {
   let component: Login;
@@ -8,7 +10,8 @@ describe('Login', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [Login]
+      imports: [Login],
+      providers: [provideRouter([]), provideMockBackend()]
     })
     .compileComponents();
 
@@ -20,6 +20,7 @@ import { Header } from '../../../shared/header/header';
 import { Footer } from '../../../shared/footer/footer';
 import { AuthService } from '../../../shared/services/auth.service';
 import { ApiResponse } from '../../../shared/interfaces/api.interfaces';
+import { getSafeReturnUrl, RETURN_URL_PARAM } from '../../../shared/utils/return-url.utils';
 
 /**
  * @Component
@@ -53,6 +54,13 @@ export class Login implements OnInit, OnDestroy {
    */
   successMessage = '';
 
+  /**
+   * The validated page to return to after logging in (e.g. a shared video link),
+   * or `null` to open the video list.
+   * @private
+   */
+  private returnUrl: string | null = null;
+
   /** 
    * A timer ID for clearing the success message, used for cleanup in ngOnDestroy. 
    */
@@ -86,6 +94,7 @@ export class Login implements OnInit, OnDestroy {
    * Angular lifecycle hook. Initializes component setup.
    */
   ngOnInit(): void {
+    this.returnUrl = getSafeReturnUrl(this.route.snapshot.queryParamMap.get(RETURN_URL_PARAM));
     this.checkForSuccessMessage();
     this.setupFormListeners();
   }
@@ -175,13 +184,14 @@ export class Login implements OnInit, OnDestroy {
   }
 
   /**
-   * Processes the response from the login API call.
+   * Processes the response from the login API call. A successful login leads back to
+   * the page the user originally requested, if any.
    * @private
    * @param {ApiResponse} response The response from the AuthService.
    */
   private handleLoginResponse(response: ApiResponse): void {
     if (response.success) {
-      this.router.navigate(['/videos']);
+      this.router.navigateByUrl(this.returnUrl ?? '/videos');
     } else {
       this.handleLoginError(response);
     }
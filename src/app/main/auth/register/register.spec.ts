@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
 
 import { Register } from './register';
+import { provideMockBackend } from '../../../shared/mock/provide-mock-backend';
 
 describe('Register', () => {
   let component: Register;
@@ -8,7 +10,8 @@ describe('Register', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [Register]
+      imports: [Register],
+      providers: [provideRouter([]), provideMockBackend()]
     })
     .compileComponents();
 
@@ -18,7 +18,8 @@ import { Subscription } from 'rxjs';
 // =================================================================
 import { Header } from '../../../shared/header/header';
 import { Footer } from '../../../shared/footer/footer';
-import { AuthService, RegisterData } from '../../../shared/services/auth.service';
+import { AuthService } from '../../../shared/services/auth.service';
+import { RegisterData } from '../../../shared/interfaces/api.interfaces';
 
 /**
  * @Component
@@ -8,6 +8,7 @@ import { CommonModule } from '@angular/common';
 // Custom Application-Specific Imports
 // =================================================================
 import { Video } from '../../../shared/interfaces/api.interfaces';
+import { HighlightPipe } from '../../../shared/pipes/highlight.pipe';
 
 /**
  * @Component
@@ -16,7 +17,7 @@ import { Video } from '../../../shared/interfaces/api.interfaces';
 @Component({
   selector: 'app-video-card',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, HighlightPipe],
   templateUrl: './video-card.html',
   styleUrls: ['./video-card.scss']
 })
@@ -29,6 +30,21 @@ export class VideoCard {
    */
   @Input() video!: Video;
 
+  /**
+   * How much of the video the user has already watched, as a ratio between 0 and 1.
+   * A progress bar is shown on the thumbnail if set.
+   * @Input
+   * @default null
+   */
+  @Input() progress: number | null = null;
+
+  /**
+   * A search query whose terms are highlighted in the title, description and category.
+   * @Input
+   * @default ''
+   */
+  @Input() highlight = '';
+
   /**
    * An event emitter that fires when the video card is clicked.
    * It passes the full `video` object to the parent component.
@@ -1,20 +1,29 @@
 // =================================================================
 // Standard Angular and RxJS Imports
 // =================================================================
-import { Component, OnInit, OnDestroy } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
-import { Observable, Subscription } from 'rxjs';
+import { Observable, Subscription, combineLatest } from 'rxjs';
+import { map } from 'rxjs/operators';
 
 // =================================================================
 // Custom Application-Specific Imports
 // =================================================================
 import { VideoService } from '../../shared/services/video.service';
 import { AuthService } from '../../shared/services/auth.service';
+import { PlaybackProgressService } from '../../shared/services/playback-progress.service';
+import { NotificationService } from '../../shared/services/notification.service';
+import { PlayerDockService } from '../../shared/services/player-dock.service';
 import { Video, User, ApiResponse } from '../../shared/interfaces/api.interfaces';
+import { parseStartTime } from '../../shared/utils/time.utils';
+import { getSafeReturnUrl, RETURN_URL_PARAM } from '../../shared/utils/return-url.utils';
+import { getCategoryDisplayName } from '../../shared/utils/category.utils';
 import { VideoCard } from './video-card/video-card';
-import { VideoPlayer } from './video-player/video-player';
 import { Footer } from '../../shared/footer/footer';
+import { VideoHeader } from '../../shared/video-header/video-header';
+import { InViewDirective } from '../../shared/directives/in-view.directive';
+import { PlayerSlotDirective } from '../../shared/directives/player-slot.directive';
 
 /**
  * @Component
@@ -23,7 +32,7 @@ import { Footer } from '../../shared/footer/footer';
 @Component({
   selector: 'app-video-list',
   standalone: true,
-  imports: [CommonModule, VideoCard, VideoPlayer, Footer],
+  imports: [CommonModule, VideoCard, Footer, VideoHeader, InViewDirective, PlayerSlotDirective],
   templateUrl: './video-list.html',
   styleUrls: ['./video-list.scss'],
 })
@@ -40,6 +49,10 @@ export class VideoList implements OnInit, OnDestroy {
    * An observable stream of the video currently selected for playback in the main player.   *
    */
   currentVideo$: Observable<Video | null>;
+  /**
+   * An observable stream of the videos the user has started but not finished.   *
+   */
+  continueWatching$: Observable<Video[]>;
 
   /**
    * An array of unique video category names.   *
@@ -59,46 +72,61 @@ export class VideoList implements OnInit, OnDestroy {
   currentUser: User | null = null;
 
   /**
-   * A collection of all active subscriptions to be cleaned up on component destruction.   *
+   * The ID of the video requested via the `videos/:id` route, if any.
+   * @private
    */
-  private subscriptions = new Subscription();
-
+  private requestedVideoId: number | null = null;
+  /**
+   * The start time requested via the `t` query parameter, applied once the video is selected.
+   * @private
+   */
+  private requestedStartTime: number | null = null;
   /**
-   * A map of category keys to their display-friendly names.
+   * A flag to indicate that the video list has been loaded, so a requested video can be looked up.
    * @private
    */
-  private categoryDisplayNames: { [key: string]: string } = {
-    action: 'Action',
-    cartoon: "Cartoon",
-    comedy: 'Comedy',
-    drama: 'Drama',
-    thriller: 'Thriller',
-    horror: 'Horror',
-    romance: 'Romance',
-    scifi: 'Science Fiction',
-    documentary: 'Documentary',
-  };
+  private videosLoaded = false;
+
+  /**
+   * A collection of all active subscriptions to be cleaned up on component destruction.   *
+   */
+  private subscriptions = new Subscription();
 
   /**
    * The constructor for the VideoList component.
    * @param {VideoService} videoService Service for fetching video data.
    * @param {AuthService} authService Service for authentication and user data.
    * @param {Router} router Angular service for navigation.
+   * @param {PlaybackProgressService} progressService Service for the user's playback progress.
+   * @param {ActivatedRoute} route The current route, providing the requested video and start time.
+   * @param {NotificationService} notificationService Service to report failed page loads.
+   * @param {ChangeDetectorRef} cdr Used to render the paging state once a page has loaded.
+   * @param {PlayerDockService} playerDock Service passing the start time to the main player.
    */
   constructor(
     private videoService: VideoService,
     private authService: AuthService,
-    private router: Router
+    private router: Router,
+    private progressService: PlaybackProgressService,
+    private route: ActivatedRoute,
+    private notificationService: NotificationService,
+    private cdr: ChangeDetectorRef,
+    private playerDock: PlayerDockService
   ) {
     this.videos$ = this.videoService.videos$;
     this.latestVideos$ = this.videoService.latestVideos$;
     this.currentVideo$ = this.videoService.currentVideo$;
+    this.continueWatching$ = combineLatest([
+      this.videos$,
+      this.progressService.progress$,
+    ]).pipe(map(([videos]) => this.progressService.getContinueWatching(videos)));
   }
 
   /**
-   * Angular lifecycle hook. Initializes video loading and sets up subscriptions.
+   * Angular lifecycle hook. Initializes video and progress loading and sets up subscriptions.
    */
   ngOnInit(): void {
+    this.progressService.loadProgress();
     this.loadVideos();
     this.setupSubscriptions();
   }
@@ -121,9 +149,56 @@ export class VideoList implements OnInit, OnDestroy {
     const userSubscription = this.authService.currentUser$.subscribe(user => {
         this.currentUser = user;
     });
+    const routeSubscription = combineLatest([
+      this.route.paramMap,
+      this.route.queryParamMap,
+    ]).subscribe(([params, queryParams]) => {
+        const id = params.get('id');
+        this.requestedVideoId = id !== null ? Number(id) : null;
+        this.requestedStartTime = parseStartTime(queryParams.get('t'));
+        this.selectRequestedVideo();
+    });
 
     this.subscriptions.add(categorySubscription);
     this.subscriptions.add(userSubscription);
+    this.subscriptions.add(routeSubscription);
+  }
+
+  /**
+   * Opens the video requested via the `videos/:id` route in the main player, starting at
+   * the requested time. Unknown IDs lead to the not-found page, keeping the URL in place.
+   * Does nothing until the video list is loaded, or if no video was requested.
+   * @private
+   */
+  private selectRequestedVideo(): void {
+    if (!this.videosLoaded || this.requestedVideoId === null) return;
+
+    const startTime = this.requestedStartTime;
+    const videoSub = this.videoService.getVideoById(this.requestedVideoId).subscribe({
+      next: (video) => {
+        if (!video) {
+          this.router.navigate(['/not-found'], { skipLocationChange: true });
+          return;
+        }
+        this.playerDock.setStartTime(startTime);
+        this.videoService.setCurrentVideo(video);
+      },
+      error: (error) => this.handleLoadError(error),
+    });
+
+    this.subscriptions.add(videoSub);
+  }
+
+  /**
+   * Shows the first video in the main player if no video was requested, unless a video is
+   * already selected (e.g. still playing in the mini-player).
+   * @private
+   * @param {Video[]} videos The loaded videos.
+   */
+  private selectFirstVideo(videos: Video[]): void {
+    if (this.requestedVideoId !== null || this.videoService.getCurrentVideo() || videos.length === 0) return;
+
+    this.videoService.setCurrentVideo(videos[0]);
   }
 
   /**
@@ -150,7 +225,12 @@ export class VideoList implements OnInit, OnDestroy {
    */
   private handleLoadSuccess(response: ApiResponse<Video[]>): void {
     this.isLoading = false;
-    if (response.success) return; // Happy path, do nothing more.
+    if (response.success) {
+      this.videosLoaded = true;
+      this.selectFirstVideo(response.data ?? []);
+      this.selectRequestedVideo();
+      return;
+    }
 
     const message = response.message || 'Failed to load videos';
     const isAuthError = message.includes('autorisiert') || message.includes('Unauthorized');
@@ -179,24 +259,62 @@ export class VideoList implements OnInit, OnDestroy {
 
   /**
    * Handles authorization-related errors by displaying a message, logging out the user,
-   * and redirecting to the login page after a short delay.
+   * and redirecting to the login page after a short delay, which returns to this page after
+   * logging in again.
    * @private
    * @param {string} message The error message to display.
    */
   private handleUnauthorizedError(message: string): void {
     this.errorMessage = message;
+    const returnUrl = getSafeReturnUrl(this.router.url);
     setTimeout(() => {
       this.authService.logout();
-      this.router.navigate(['/auth/login']);
+      this.router.navigate(['/auth/login'], {
+        queryParams: { [RETURN_URL_PARAM]: returnUrl },
+      });
     }, 2000);
   }
 
    /**
-   * Sets the provided video as the current video for the main player.
+   * Navigates to the deep link of the provided video, which opens it in the main player.
    * @param {Video} video The video to be played.
    */
   onPlayVideo(video: Video): void {
-    this.videoService.setCurrentVideo(video);
+    this.router.navigate(['/videos', video.id]);
+  }
+
+  /**
+   * Loads the next page of a category row, or of the whole catalog.
+   * Triggered when the end of the row (or page) scrolls into view.
+   * @param {string} [category] The category row; omit it for the whole catalog.
+   */
+  loadMoreVideos(category?: string): void {
+    const pageSub = this.videoService.loadMoreVideos(category).subscribe((response) => {
+      if (!response.success) {
+        this.notificationService.show('Weitere Videos konnten nicht geladen werden', 'error');
+      }
+      this.cdr.markForCheck();
+    });
+
+    this.subscriptions.add(pageSub);
+  }
+
+  /**
+   * Checks whether more videos can be loaded for a category row or the whole catalog.
+   * @param {string} [category] The category row; omit it for the whole catalog.
+   * @returns {boolean} `true` if there are pages left to load.
+   */
+  hasMoreVideos(category?: string): boolean {
+    return this.videoService.hasMoreVideos(category);
+  }
+
+  /**
+   * Checks whether the next page of a category row or the whole catalog is being loaded.
+   * @param {string} [category] The category row; omit it for the whole catalog.
+   * @returns {boolean} `true` while the page is loading.
+   */
+  isLoadingMoreVideos(category?: string): boolean {
+    return this.videoService.isLoadingMoreVideos(category);
   }
 
   /**
@@ -209,21 +327,20 @@ export class VideoList implements OnInit, OnDestroy {
   }
 
   /**
-   * Gets the display-friendly name for a given category key.
-   * @param {string} category The category key (e.g., 'scifi').
-   * @returns {string} The display name (e.g., 'Science Fiction').
+   * Returns how much of a video the user has already watched.
+   * @param {Video} video The video to look up.
+   * @returns {number | null} A ratio between 0 and 1, or `null` if the video was not started.
    */
-  getCategoryDisplayName(category: string): string {
-    const key = category.toLowerCase();
-    const defaultName = category.charAt(0).toUpperCase() + category.slice(1);
-    return this.categoryDisplayNames[key] || defaultName;
+  getProgress(video: Video): number | null {
+    return this.progressService.getProgressRatio(video.id);
   }
 
   /**
-   * Logs the user out by clearing authentication data and navigating to the login page.
+   * Gets the display-friendly name for a given category key.
+   * @param {string} category The category key (e.g., 'scifi').
+   * @returns {string} The display name (e.g., 'Science Fiction').
    */
-  logout(): void {
-    this.authService.logout();
-    this.router.navigate(['/auth/login']);
+  getCategoryDisplayName(category: string): string {
+    return getCategoryDisplayName(category);
   }
 }
\ No newline at end of file
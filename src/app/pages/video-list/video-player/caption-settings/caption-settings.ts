@@ -0,0 +1,184 @@
+// =================================================================
+// Standard Angular Imports
+// =================================================================
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Input,
+  Output,
+  ViewChild,
+} from '@angular/core';
+
+// =================================================================
+// Custom Application-Specific Imports
+// =================================================================
+import { CaptionStyle, PlayerMenuOption } from '../../../../shared/interfaces/player.interfaces';
+import { DEFAULT_PLAYER_PREFERENCES } from '../../../../shared/services/player-preferences.service';
+
+/**
+ * @Component
+ * Defines the metadata for the CaptionSettings component.
+ *
+ * @description
+ * A button of the player's control bar that opens a small dialog to adjust how subtitles
+ * look: font size, text color and background opacity. The settings are native selects,
+ * so they come with keyboard support built in; no key pressed inside the dialog reaches
+ * the player's shortcuts, and Escape closes it.
+ */
+@Component({
+  selector: 'app-caption-settings',
+  standalone: true,
+  imports: [],
+  templateUrl: './caption-settings.html',
+  styleUrls: ['./caption-settings.scss'],
+})
+export class CaptionSettings {
+  /**
+   * The current caption style.
+   * @Input
+   */
+  @Input() captionStyle: CaptionStyle = DEFAULT_PLAYER_PREFERENCES.captionStyle;
+
+  /**
+   * Fires with the complete caption style whenever a setting changes.
+   * @Output
+   */
+  @Output() captionStyleChange = new EventEmitter<CaptionStyle>();
+
+  /**
+   * A reference to the button opening the dialog, which receives the focus when it closes.
+   * @ViewChild
+   */
+  @ViewChild('settingsButton') settingsButton!: ElementRef<HTMLButtonElement>;
+
+  /**
+   * A reference to the first setting, which receives the focus when the dialog opens.
+   * @ViewChild
+   */
+  @ViewChild('firstSetting') firstSetting?: ElementRef<HTMLSelectElement>;
+
+  /**
+   * Whether the dialog is currently open.
+   * @type {boolean}
+   */
+  isOpen = false;
+
+  /**
+   * The selectable font sizes, relative to the browser's default cue size.
+   */
+  readonly sizeOptions: PlayerMenuOption[] = [
+    { value: '0.75', label: 'Klein' },
+    { value: '1', label: 'Normal' },
+    { value: '1.5', label: 'Groß' },
+    { value: '2', label: 'Sehr groß' },
+  ];
+
+  /**
+   * The selectable text colors.
+   */
+  readonly colorOptions: PlayerMenuOption[] = [
+    { value: '#ffffff', label: 'Weiß' },
+    { value: '#ffff00', label: 'Gelb' },
+    { value: '#00ffff', label: 'Cyan' },
+    { value: '#00ff00', label: 'Grün' },
+  ];
+
+  /**
+   * The selectable opacities of the background box.
+   */
+  readonly backgroundOptions: PlayerMenuOption[] = [
+    { value: '0', label: 'Aus' },
+    { value: '0.5', label: '50 %' },
+    { value: '0.75', label: '75 %' },
+    { value: '1', label: '100 %' },
+  ];
+
+  /**
+   * A counter for unique dialog IDs.
+   * @private
+   */
+  private static nextId = 0;
+
+  /**
+   * A unique ID linking the button to its dialog and the labels to their selects.
+   */
+  readonly dialogId = `caption-settings-${CaptionSettings.nextId++}`;
+
+  /**
+   * Constructs the CaptionSettings component.
+   * @param {ElementRef<HTMLElement>} host - The host element, used to detect clicks outside the dialog.
+   */
+  constructor(private host: ElementRef<HTMLElement>) {}
+
+  /**
+   * Opens or closes the dialog. When it opens, the first setting is focused once it is rendered.
+   */
+  toggle(): void {
+    if (this.isOpen) {
+      this.close(true);
+      return;
+    }
+    this.isOpen = true;
+    setTimeout(() => this.firstSetting?.nativeElement.focus());
+  }
+
+  /**
+   * Closes the dialog.
+   * @param {boolean} returnFocus - Moves the focus back to the button.
+   */
+  close(returnFocus: boolean): void {
+    this.isOpen = false;
+    if (returnFocus) {
+      this.settingsButton.nativeElement.focus();
+    }
+  }
+
+  /**
+   * Checks whether an option is the current value of a setting.
+   * @param {keyof CaptionStyle} setting - The setting.
+   * @param {string} value - The value of the option.
+   * @returns {boolean} `true` if the option is selected.
+   */
+  isSelected(setting: keyof CaptionStyle, value: string): boolean {
+    return String(this.captionStyle[setting]) === value;
+  }
+
+  /**
+   * Handles a change of one of the selects and reports the updated style.
+   * @param {keyof CaptionStyle} setting - The changed setting.
+   * @param {Event} event - The change event of the select.
+   */
+  onSettingChange(setting: keyof CaptionStyle, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.captionStyleChange.emit({
+      ...this.captionStyle,
+      [setting]: setting === 'color' ? value : Number(value),
+    });
+  }
+
+  /**
+   * Keeps all keys within the open dialog, so they do not trigger the player's shortcuts.
+   * Escape closes the dialog.
+   * @param {KeyboardEvent} event - The keydown event.
+   */
+  onDialogKeyDown(event: KeyboardEvent): void {
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.close(true);
+    }
+  }
+
+  /**
+   * Closes the dialog when the user clicks anywhere outside of it.
+   * @param {MouseEvent} event - The click event.
+   */
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.isOpen && !this.host.nativeElement.contains(event.target as Node)) {
+      this.close(false);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+// =================================================================
+// Standard Angular Imports
+// =================================================================
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+// =================================================================
+// Custom Application-Specific Imports
+// =================================================================
+import {
+  CaptionStyle,
+  PlayerMenuOption,
+  ThumbnailFrame,
+  ThumbnailTrack,
+} from '../../../../shared/interfaces/player.interfaces';
+import { formatPlaybackRate, formatTime } from '../../../../shared/utils/time.utils';
+import { findThumbnailFrame } from '../../../../shared/utils/thumbnail.utils';
+import { DEFAULT_PLAYER_PREFERENCES } from '../../../../shared/services/player-preferences.service';
+import { PlayerMenu } from '../player-menu/player-menu';
+import { CaptionSettings } from '../caption-settings/caption-settings';
+
+/**
+ * @Component
+ * Defines the metadata for the PlayerControls component.
+ *
+ * @description
+ * The custom control bar of the main video player: seek bar with frame preview,
+ * play/pause, volume, time display, speed, audio, subtitle and quality menus, picture-in-picture
+ * and fullscreen toggles. It only renders the state it
+ * receives and reports user actions; the `VideoPlayer` owns the `<video>` element
+ * and applies them. The seek bar and volume slider are native range inputs, so they
+ * come with the slider role and keyboard support built in.
+ */
+@Component({
+  selector: 'app-player-controls',
+  standalone: true,
+  imports: [PlayerMenu, CaptionSettings],
+  templateUrl: './player-controls.html',
+  styleUrls: ['./player-controls.scss'],
+})
+export class PlayerControls {
+  /**
+   * Whether the video is currently playing.
+   * @Input
+   */
+  @Input() isPlaying = false;
+
+  /**
+   * The current playback position in seconds.
+   * @Input
+   */
+  @Input() currentTime = 0;
+
+  /**
+   * The duration of the video in seconds, or 0 while unknown.
+   * @Input
+   */
+  @Input() duration = 0;
+
+  /**
+   * The end of the buffered range around the current position, in seconds.
+   * @Input
+   */
+  @Input() bufferedEnd = 0;
+
+  /**
+   * The volume between 0 and 1.
+   * @Input
+   */
+  @Input() volume = 1;
+
+  /**
+   * Whether the sound is muted.
+   * @Input
+   */
+  @Input() muted = false;
+
+  /**
+   * Whether the player is in fullscreen mode.
+   * @Input
+   */
+  @Input() isFullscreen = false;
+
+  /**
+   * Whether the browser supports picture-in-picture; the button is hidden otherwise.
+   * @Input
+   */
+  @Input() canPictureInPicture = false;
+
+  /**
+   * Whether the video is playing in a picture-in-picture window.
+   * @Input
+   */
+  @Input() isPictureInPicture = false;
+
+  /**
+   * The preview frames shown above the seek bar, or `null` to show only the timestamp.
+   * @Input
+   */
+  @Input() thumbnails: ThumbnailTrack | null = null;
+
+  /**
+   * The entries of the quality menu.
+   * @Input
+   */
+  @Input() qualityOptions: PlayerMenuOption[] = [];
+
+  /**
+   * The value of the selected quality (e.g. 'auto' or '720p').
+   * @Input
+   */
+  @Input() currentResolution = 'auto';
+
+  /**
+   * The entries of the speed menu.
+   * @Input
+   */
+  @Input() playbackRateOptions: PlayerMenuOption[] = [];
+
+  /**
+   * The value of the current playback rate (e.g. '1.5').
+   * @Input
+   */
+  @Input() currentPlaybackRate = '1';
+
+  /**
+   * The entries of the audio menu; the menu is hidden if the video has only one audio track.
+   * @Input
+   */
+  @Input() audioOptions: PlayerMenuOption[] = [];
+
+  /**
+   * The value of the playing audio track.
+   * @Input
+   */
+  @Input() currentAudioTrack = '';
+
+  /**
+   * The entries of the subtitle menu; the menu is hidden if there is only the entry 'Aus'.
+   * @Input
+   */
+  @Input() subtitleOptions: PlayerMenuOption[] = [];
+
+  /**
+   * The value of the selected subtitle track, or 'off'.
+   * @Input
+   */
+  @Input() currentSubtitle = 'off';
+
+  /**
+   * How subtitles are displayed.
+   * @Input
+   */
+  @Input() captionStyle: CaptionStyle = DEFAULT_PLAYER_PREFERENCES.captionStyle;
+
+  /** Fires when the play/pause button is pressed. @Output */
+  @Output() togglePlay = new EventEmitter<void>();
+  /** Fires with the position (in seconds) the user seeked to. @Output */
+  @Output() seek = new EventEmitter<number>();
+  /** Fires with the volume (0 to 1) the user set. @Output */
+  @Output() volumeChange = new EventEmitter<number>();
+  /** Fires when the mute button is pressed. @Output */
+  @Output() toggleMute = new EventEmitter<void>();
+  /** Fires when the fullscreen button is pressed. @Output */
+  @Output() toggleFullscreen = new EventEmitter<void>();
+  /** Fires when the picture-in-picture button is pressed. @Output */
+  @Output() togglePictureInPicture = new EventEmitter<void>();
+  /** Fires with the quality the user selected. @Output */
+  @Output() resolutionChange = new EventEmitter<string>();
+  /** Fires with the playback rate the user selected. @Output */
+  @Output() playbackRateChange = new EventEmitter<string>();
+  /** Fires with the audio track the user selected. @Output */
+  @Output() audioTrackChange = new EventEmitter<string>();
+  /** Fires with the subtitle track the user selected, or 'off'. @Output */
+  @Output() subtitleChange = new EventEmitter<string>();
+  /** Fires with the caption style the user set. @Output */
+  @Output() captionStyleChange = new EventEmitter<CaptionStyle>();
+
+  /**
+   * The position shown while the user drags the seek bar, or `null` when not dragging.
+   * The video only seeks once the thumb is released.
+   * @type {number | null}
+   */
+  scrubTime: number | null = null;
+
+  /**
+   * The position under the pointer while it hovers the seek bar, or `null`.
+   * @type {number | null}
+   */
+  hoverTime: number | null = null;
+
+  /**
+   * Formats a time in seconds for display in the template (e.g., "23:14").
+   */
+  readonly formatTime = formatTime;
+
+  /**
+   * Formats a playback rate for the speed menu's button.
+   */
+  readonly formatPlaybackRate = formatPlaybackRate;
+
+  /**
+   * The position shown on the seek bar and in the time display.
+   * @type {number}
+   */
+  get displayTime(): number {
+    return this.scrubTime ?? this.currentTime;
+  }
+
+  /**
+   * The position previewed above the seek bar: the dragged position, or else the hovered one.
+   * @type {number | null}
+   */
+  get previewTime(): number | null {
+    return this.scrubTime ?? this.hoverTime;
+  }
+
+  /**
+   * The preview frame for the previewed position, if the video has preview frames.
+   * @type {ThumbnailFrame | null}
+   */
+  get previewFrame(): ThumbnailFrame | null {
+    if (!this.thumbnails || this.previewTime === null) return null;
+    return findThumbnailFrame(this.thumbnails, this.previewTime);
+  }
+
+  /**
+   * The CSS `left` value of the preview, kept within the player's bounds.
+   * @type {string}
+   */
+  get previewLeft(): string {
+    return `clamp(80px, ${this.toPercent(this.previewTime ?? 0)}%, calc(100% - 80px))`;
+  }
+
+  /**
+   * The volume as a rounded percentage, 0 while muted.
+   * @type {number}
+   */
+  get volumePercent(): number {
+    return this.muted ? 0 : Math.round(this.volume * 100);
+  }
+
+  /**
+   * Converts a time into a percentage of the duration, for the seek bar's fill.
+   * @param {number} seconds - The time in seconds.
+   * @returns {number} The percentage between 0 and 100.
+   */
+  toPercent(seconds: number): number {
+    return this.duration > 0 ? Math.min(100, (seconds / this.duration) * 100) : 0;
+  }
+
+  /**
+   * Handles the input event of the seek bar while the user drags it.
+   * @param {Event} event - The input event.
+   */
+  onSeekInput(event: Event): void {
+    this.scrubTime = Number((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Handles the change event of the seek bar, i.e. the released thumb.
+   * @param {Event} event - The change event.
+   */
+  onSeekChange(event: Event): void {
+    this.scrubTime = null;
+    this.seek.emit(Number((event.target as HTMLInputElement).value));
+  }
+
+  /**
+   * Tracks the position under the pointer while it hovers the seek bar.
+   * @param {PointerEvent} event - The pointermove event.
+   */
+  onSeekHover(event: PointerEvent): void {
+    const bar = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientX - bar.left) / bar.width, 0), 1);
+    this.hoverTime = this.duration > 0 ? ratio * this.duration : null;
+  }
+
+  /**
+   * Handles the input event of the volume slider.
+   * @param {Event} event - The input event.
+   */
+  onVolumeInput(event: Event): void {
+    this.volumeChange.emit(Number((event.target as HTMLInputElement).value));
+  }
+
+  /**
+   * Keeps the arrow keys on the volume slider for the slider itself, instead of
+   * letting them trigger the player's seek and volume shortcuts.
+   * @param {KeyboardEvent} event - The keydown event.
+   */
+  onVolumeKeyDown(event: KeyboardEvent): void {
+    if (event.key.startsWith('Arrow')) {
+      event.stopPropagation();
+    }
+  }
+}
@@ -0,0 +1,207 @@
+// =================================================================
+// Standard Angular Imports
+// =================================================================
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Input,
+  Output,
+  QueryList,
+  ViewChild,
+  ViewChildren,
+} from '@angular/core';
+
+// =================================================================
+// Custom Application-Specific Imports
+// =================================================================
+import { PlayerMenuOption } from '../../../../shared/interfaces/player.interfaces';
+
+/**
+ * @Component
+ * Defines the metadata for the PlayerMenu component.
+ *
+ * @description
+ * A button that opens a single-choice menu of the player's control bar (e.g. the quality
+ * menu). It follows the ARIA menu button pattern: the menu items are `menuitemradio`s,
+ * the arrow keys move the focus between them, and Escape closes the menu and returns
+ * the focus to its button.
+ */
+@Component({
+  selector: 'app-player-menu',
+  standalone: true,
+  imports: [],
+  templateUrl: './player-menu.html',
+  styleUrls: ['./player-menu.scss'],
+})
+export class PlayerMenu {
+  /**
+   * The accessible name of the menu and its button (e.g. 'Qualität').
+   * @Input
+   */
+  @Input() label = '';
+
+  /**
+   * The path to the icon shown on the menu button.
+   * @Input
+   */
+  @Input() icon = '';
+
+  /**
+   * A short text shown on the menu button instead of the icon (e.g. the current value).
+   * @Input
+   */
+  @Input() buttonText = '';
+
+  /**
+   * The options to choose from.
+   * @Input
+   */
+  @Input() options: PlayerMenuOption[] = [];
+
+  /**
+   * The value of the currently selected option.
+   * @Input
+   */
+  @Input() selected = '';
+
+  /**
+   * Fires with the value of the option the user selected.
+   * @Output
+   */
+  @Output() optionSelected = new EventEmitter<string>();
+
+  /**
+   * A reference to the menu button, which receives the focus when the menu closes.
+   * @ViewChild
+   */
+  @ViewChild('menuButton') menuButton!: ElementRef<HTMLButtonElement>;
+
+  /**
+   * References to the menu items, used to move the focus between them.
+   * @ViewChildren
+   */
+  @ViewChildren('menuItem') menuItems!: QueryList<ElementRef<HTMLButtonElement>>;
+
+  /**
+   * Whether the menu is currently open.
+   * @type {boolean}
+   */
+  isOpen = false;
+
+  /**
+   * A counter for unique menu IDs.
+   * @private
+   */
+  private static nextId = 0;
+
+  /**
+   * A unique ID linking the menu button to its menu.
+   */
+  readonly menuId = `player-menu-${PlayerMenu.nextId++}`;
+
+  /**
+   * Constructs the PlayerMenu component.
+   * @param {ElementRef<HTMLElement>} host - The host element, used to detect clicks outside the menu.
+   */
+  constructor(private host: ElementRef<HTMLElement>) {}
+
+  /**
+   * Opens or closes the menu.
+   */
+  toggle(): void {
+    if (this.isOpen) {
+      this.close(true);
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Opens the menu and focuses the selected option once it is rendered.
+   * @private
+   */
+  private open(): void {
+    this.isOpen = true;
+    setTimeout(() => {
+      const index = this.options.findIndex((option) => option.value === this.selected);
+      this.focusItem(Math.max(index, 0));
+    });
+  }
+
+  /**
+   * Closes the menu.
+   * @param {boolean} returnFocus - Moves the focus back to the menu button.
+   */
+  close(returnFocus: boolean): void {
+    this.isOpen = false;
+    if (returnFocus) {
+      this.menuButton.nativeElement.focus();
+    }
+  }
+
+  /**
+   * Selects an option and closes the menu.
+   * @param {PlayerMenuOption} option - The selected option.
+   */
+  selectOption(option: PlayerMenuOption): void {
+    this.optionSelected.emit(option.value);
+    this.close(true);
+  }
+
+  /**
+   * Handles the keyboard navigation within the open menu. The handled keys do not
+   * propagate, so they do not trigger the player's shortcuts.
+   * @param {KeyboardEvent} event - The keydown event.
+   */
+  onMenuKeyDown(event: KeyboardEvent): void {
+    const items = this.menuItems.toArray();
+    const index = items.findIndex((item) => item.nativeElement === document.activeElement);
+
+    switch (event.key) {
+      case 'ArrowDown':
+        this.focusItem((index + 1) % items.length);
+        break;
+      case 'ArrowUp':
+        this.focusItem((index - 1 + items.length) % items.length);
+        break;
+      case 'Home':
+        this.focusItem(0);
+        break;
+      case 'End':
+        this.focusItem(items.length - 1);
+        break;
+      case 'Escape':
+        this.close(true);
+        break;
+      case 'Tab':
+        this.close(false);
+        return;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  /**
+   * Closes the menu when the user clicks anywhere outside of it.
+   * @param {MouseEvent} event - The click event.
+   */
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.isOpen && !this.host.nativeElement.contains(event.target as Node)) {
+      this.close(false);
+    }
+  }
+
+  /**
+   * Moves the focus to a menu item.
+   * @private
+   * @param {number} index - The index of the item.
+   */
+  private focusItem(index: number): void {
+    this.menuItems.get(index)?.nativeElement.focus();
+  }
+}
@@ -13,22 +13,47 @@ import {
   AfterViewInit,
   OnChanges,
   SimpleChanges,
+  ChangeDetectorRef,
+  HostListener,
+  QueryList,
+  ViewChildren,
 } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { CommonModule, Location } from '@angular/common';
+import { Router } from '@angular/router';
+import { Subscription, firstValueFrom } from 'rxjs';
+import type Hls from 'hls.js';
+import type { ErrorData, MediaPlaylist } from 'hls.js';
 
 // =================================================================
 // Custom Application-Specific Imports
 // =================================================================
-import { Video } from '../../../shared/interfaces/api.interfaces';
+import { SubtitleTrack, Video } from '../../../shared/interfaces/api.interfaces';
+import {
+  AudioOption,
+  CaptionStyle,
+  PlayerErrorKind,
+  PlayerMenuOption,
+  SubtitleOption,
+  ThumbnailTrack,
+  VideoRendition,
+} from '../../../shared/interfaces/player.interfaces';
 import { VideoService } from '../../../shared/services/video.service';
 import { NotificationService } from '../../../shared/services/notification.service';
-
-/**
- * Declares the Hls.js library as a global variable.
- * This is necessary because Hls.js is loaded from a CDN via a <script> tag in index.html,
- * and this declaration makes it accessible within the TypeScript environment without type errors.
- */
-declare var Hls: any;
+import { AuthService } from '../../../shared/services/auth.service';
+import { PlaybackProgressService } from '../../../shared/services/playback-progress.service';
+import { ThumbnailService } from '../../../shared/services/thumbnail.service';
+import { PlayerPreferencesService } from '../../../shared/services/player-preferences.service';
+import { formatPlaybackRate, formatTime } from '../../../shared/utils/time.utils';
+import { findByLanguage } from '../../../shared/utils/language.utils';
+import { formatEpisode } from '../../../shared/utils/episode.utils';
+import {
+  classifyHlsError,
+  classifyMediaError,
+  getPlayerErrorMessage,
+} from '../../../shared/utils/player-error.utils';
+import { PlayerEngineService } from '../../../shared/services/player-engine.service';
+import { SessionTimeoutService } from '../../../shared/services/session-timeout.service';
+import { PlayerControls } from './player-controls/player-controls';
 
 /**
  * @Component
@@ -37,7 +62,7 @@ declare var Hls: any;
 @Component({
   selector: 'app-video-player',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PlayerControls],
   templateUrl: './video-player.html',
   styleUrls: ['./video-player.scss'],
 })
@@ -56,6 +81,14 @@ export class VideoPlayer
    */
   @Input() isMainPlayer = false;
 
+  /**
+   * Whether the main player is docked as a small mini-player, which hides its
+   * overlays and control bar.
+   * @Input
+   * @default false
+   */
+  @Input() isMini = false;
+
   /**
    * A flag to enable or disable automatic playback when a video is loaded.
    * @Input
@@ -64,8 +97,17 @@ export class VideoPlayer
   @Input() autoPlay = false;
 
   /**
-   * An event emitter that fires when a non-main player card is clicked,
-   * signaling the parent component to play this video in the main player.
+   * The position (in seconds) to start the video at, e.g. from a shared link.
+   * Takes precedence over the saved position, so no resume prompt is shown.
+   * @Input
+   * @default null
+   */
+  @Input() startTime: number | null = null;
+
+  /**
+   * An event emitter that fires when a non-main player card is clicked, or when the
+   * main player continues with the next video, signaling the parent component to play
+   * this video in the main player.
    * @Output
    */
   @Output() playVideo = new EventEmitter<Video>();
@@ -78,6 +120,22 @@ export class VideoPlayer
   @ViewChild('videoElement', { static: false })
   videoElement!: ElementRef<HTMLVideoElement>;
 
+  /**
+   * A reference to the focusable player container, which receives the keyboard
+   * shortcuts and is shown in fullscreen mode together with the control bar.
+   * @ViewChild
+   */
+  @ViewChild('playerContainer', { static: false })
+  playerContainer!: ElementRef<HTMLElement>;
+
+  /**
+   * References to the `<track>` elements of the side-loaded subtitles, in the order of
+   * `sidecarSubtitles`, used to show or hide them.
+   * @ViewChildren
+   */
+  @ViewChildren('subtitleTrack')
+  subtitleTrackElements!: QueryList<ElementRef<HTMLTrackElement>>;
+
   /**
    * Tracks the current playback state of the video.
    * @type {boolean}
@@ -91,44 +149,460 @@ export class VideoPlayer
   isLoading = false;
 
   /**
-   * Tracks if an error has occurred during video loading or playback.
+   * Tracks if an error has occurred during video loading or playback that could not be
+   * recovered from automatically.
    * @type {boolean}
    */
   hasError = false;
 
   /**
-   * Controls the visibility of the native video controls.
+   * The kind of the unrecoverable error, used to show the reason, or `null`.
+   * @type {PlayerErrorKind | null}
+   */
+  errorKind: PlayerErrorKind | null = null;
+
+  /**
+   * Whether the player is waiting to retry after a playback error.
+   * @type {boolean}
+   */
+  isRecovering = false;
+
+  /**
+   * Controls the visibility of the control bar while the video is playing.
+   * While paused, the control bar is always visible.
    * @type {boolean}
    */
   showControls = false;
 
   /**
-   * The currently selected video resolution (e.g., '720p').
+   * The current playback position in seconds.
+   * @type {number}
+   */
+  currentTime = 0;
+
+  /**
+   * The duration of the loaded video in seconds, or 0 while unknown.
+   * @type {number}
+   */
+  duration = 0;
+
+  /**
+   * The end of the buffered range around the current position, in seconds.
+   * @type {number}
+   */
+  bufferedEnd = 0;
+
+  /**
+   * The volume between 0 and 1.
+   * @type {number}
+   */
+  volume = 1;
+
+  /**
+   * Whether the sound is muted.
+   * @type {boolean}
+   */
+  muted = false;
+
+  /**
+   * Whether the player is shown in fullscreen mode.
+   * @type {boolean}
+   */
+  isFullscreen = false;
+
+  /**
+   * Whether the video is playing in a picture-in-picture window.
+   * @type {boolean}
+   */
+  isPictureInPicture = false;
+
+  /**
+   * A short description of the last keyboard action (e.g. "Lautstärke 50 %"),
+   * announced to screen readers via a live region.
+   * @type {string}
+   */
+  announcement = '';
+
+  /**
+   * The preview frames of the loaded video for the seek bar, or `null` if it has none.
+   * @type {ThumbnailTrack | null}
+   */
+  thumbnails: ThumbnailTrack | null = null;
+
+  /**
+   * The subtitle tracks of the loaded video: side-loaded files first, followed by the
+   * subtitle renditions hls.js found in the master playlist.
+   * @type {SubtitleOption[]}
+   */
+  subtitles: SubtitleOption[] = [];
+
+  /**
+   * The ID of the shown subtitle track, or `'off'`.
+   * @type {string}
+   */
+  currentSubtitle = 'off';
+
+  /**
+   * The audio tracks of the loaded video, e.g. the original audio and its dubs.
+   * @type {AudioOption[]}
+   */
+  audioTracks: AudioOption[] = [];
+
+  /**
+   * The index of the playing audio track within `audioTracks`, as the value of the audio menu.
+   * @type {string}
+   */
+  currentAudioTrack = '';
+
+  /**
+   * How subtitles are displayed, applied to the `<video>` element as CSS custom properties.
+   * @type {CaptionStyle}
+   */
+  captionStyle: CaptionStyle;
+
+  /**
+   * The video offered in the "Up next" overlay after the current one has ended, or `null`.
+   * @type {Video | null}
+   */
+  upNext: Video | null = null;
+
+  /**
+   * The seconds until the offered video starts, or `null` while autoplay is off or cancelled.
+   * @type {number | null}
+   */
+  upNextCountdown: number | null = null;
+
+  /**
+   * Whether the next video starts automatically, as remembered in the player preferences.
+   * @type {boolean}
+   */
+  autoplayNext: boolean;
+
+  /**
+   * Whether intros are skipped without asking, as remembered in the player preferences.
+   * @type {boolean}
+   */
+  skipIntros: boolean;
+
+  /**
+   * The playback rate of the main player, as remembered in the player preferences.
+   * @type {number}
+   */
+  playbackRate: number;
+
+  /**
+   * Whether the intro was just skipped automatically, which offers to watch it for a few seconds.
+   * @type {boolean}
+   */
+  introAutoSkipped = false;
+
+  /**
+   * The currently selected video resolution (e.g., '720p'), or `'auto'` to let
+   * hls.js pick the rendition based on the measured bandwidth.
+   * @type {string}
+   */
+  currentResolution = 'auto';
+
+  /**
+   * The rendition used to start playback in auto mode, and as the fixed rendition
+   * when the browser plays HLS natively. Derived from the screen width.
+   * @type {string}
+   */
+  startResolution = '720p';
+
+  /**
+   * The name of the rendition hls.js is currently playing while in auto mode.
    * @type {string}
    */
-  currentResolution = '720p';
+  autoLevelName = '';
+
+  /**
+   * The saved position (in seconds) the current video can be resumed from,
+   * or `null` if there is nothing to resume or playback has already started.
+   * @type {number | null}
+   */
+  resumePosition: number | null = null;
+
+  /**
+   * Formats a time in seconds for display in the template (e.g., "23:14").
+   */
+  readonly formatTime = formatTime;
+
+  /**
+   * Formats the season and episode of a video for display in the template (e.g., "S1:F2").
+   */
+  readonly formatEpisode = formatEpisode;
+
+  /**
+   * The number of recovery attempts since playback last made progress.
+   * @private
+   */
+  private recoveryAttempts = 0;
+
+  /**
+   * Holds the timeout ID of the next scheduled recovery attempt.
+   * @private
+   */
+  private recoveryTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * The time (from `performance.now()`) of the last media error recovery.
+   * @private
+   */
+  private lastMediaRecoveryAt = -Infinity;
+
+  /**
+   * Whether the audio codec has already been swapped to recover from media errors.
+   * @private
+   */
+  private codecSwapped = false;
+
+  /**
+   * The playlists and segments that were already retried after a token refresh, by URL.
+   * A request that is still unauthorized after the refresh is not retried again.
+   * @private
+   */
+  private unauthorizedRequests = new Set<string>();
+
+  /**
+   * The number of recovery attempts before the error overlay is shown.
+   * @private
+   */
+  private readonly MAX_RECOVERY_ATTEMPTS = 4;
+
+  /**
+   * The delay before the first retry; it doubles with every further attempt.
+   * @private
+   */
+  private readonly RECOVERY_BASE_DELAY_MS = 1000;
+
+  /**
+   * A media error within this time after the last recovery escalates to the next measure.
+   * @private
+   */
+  private readonly MEDIA_RECOVERY_WINDOW_MS = 3000;
 
   /**
    * Holds the instance of the Hls.js player.
    * @private
    */
-  private hls: any;
+  private hls: Hls | null = null;
+
+  /**
+   * Counts the playback initializations, so one that is still waiting for hls.js to load
+   * is dropped when another video is loaded or the player is destroyed meanwhile.
+   * @private
+   */
+  private playbackRequest = 0;
+
+  /**
+   * Holds the object URL of the synthesized master playlist, so it can be revoked.
+   * @private
+   */
+  private masterPlaylistUrl: string | null = null;
+
+  /**
+   * The ID of the video currently loaded into the player, used to attribute progress updates.
+   * @private
+   */
+  private loadedVideoId: number | null = null;
+
+  /**
+   * The request for the preview frames of the loaded video, cancelled when another video loads.
+   * @private
+   */
+  private thumbnailSubscription: Subscription | null = null;
+
+  /**
+   * The subscription to the end of the session, which stops playback.
+   * @private
+   */
+  private logoutSubscription: Subscription | null = null;
 
   /**
    * Holds the timeout ID for the timer that hides the video controls.
    * @private
    */
-  private controlsTimeout: any;
+  private controlsTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Holds the interval ID of the "Up next" countdown.
+   * @private
+   */
+  private upNextInterval: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Starts the next loaded video as soon as it can play, set when continuing with the next video.
+   * @private
+   */
+  private playOnLoad = false;
+
+  /**
+   * The length of the "Up next" countdown in seconds.
+   * @private
+   */
+  private readonly UP_NEXT_SECONDS = 10;
+
+  /**
+   * Whether the intro of the loaded video was skipped automatically already. It is only
+   * skipped once, so it can still be watched by seeking back.
+   * @private
+   */
+  private introSkipped = false;
+
+  /**
+   * Holds the timeout ID for hiding the offer to watch an automatically skipped intro.
+   * @private
+   */
+  private introSkipTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Whether playback has reached the end credits, which offers the next video.
+   * @private
+   */
+  private creditsReached = false;
+
+  /**
+   * The playback rates offered in the speed menu, which the `<` and `>` shortcuts step through.
+   * @private
+   */
+  private readonly PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+  /**
+   * The step (between 0 and 1) by which the arrow keys change the volume.
+   * @private
+   */
+  private readonly VOLUME_STEP = 0.05;
 
   /**
    * The constructor for the VideoPlayer component.
    * @param {VideoService} videoService - Service to get video stream URLs.
    * @param {NotificationService} notificationService - Service to show user notifications.
+   * @param {ChangeDetectorRef} cdr - Used to render state changes triggered by Hls.js events.
+   * @param {PlaybackProgressService} progressService - Service to save and restore playback positions.
+   * @param {AuthService} authService - Service to authorize and refresh the segment requests.
+   * @param {Router} router - Used to build the share link of the video.
+   * @param {Location} location - Used to resolve the share link against the base href.
+   * @param {ThumbnailService} thumbnailService - Service to load the seek bar's preview frames.
+   * @param {PlayerPreferencesService} preferencesService - Service to remember the subtitle settings.
+   * @param {PlayerEngineService} playerEngine - Service to load hls.js on demand.
+   * @param {SessionTimeoutService} sessionTimeout - Service keeping the session alive during playback.
    */
   constructor(
     private videoService: VideoService,
-    private notificationService: NotificationService
-  ) {}
+    private notificationService: NotificationService,
+    private cdr: ChangeDetectorRef,
+    private progressService: PlaybackProgressService,
+    private authService: AuthService,
+    private router: Router,
+    private location: Location,
+    private thumbnailService: ThumbnailService,
+    private preferencesService: PlayerPreferencesService,
+    private playerEngine: PlayerEngineService,
+    private sessionTimeout: SessionTimeoutService
+  ) {
+    const preferences = this.preferencesService.getPreferences();
+    this.captionStyle = preferences.captionStyle;
+    this.autoplayNext = preferences.autoplayNext;
+    this.skipIntros = preferences.skipIntros;
+    this.playbackRate = preferences.playbackRate;
+  }
+
+  /**
+   * The renditions offered in the resolution selector, from lowest to highest quality.
+   * @type {VideoRendition[]}
+   */
+  get renditions(): VideoRendition[] {
+    return this.videoService.getRenditions();
+  }
+
+  /**
+   * The entries of the quality menu: auto mode followed by every rendition.
+   * @type {PlayerMenuOption[]}
+   */
+  get qualityOptions(): PlayerMenuOption[] {
+    return [
+      { value: 'auto', label: this.getResolutionLabel('auto') },
+      ...this.renditions.map((rendition) => ({
+        value: rendition.name,
+        label: rendition.name,
+      })),
+    ];
+  }
+
+  /**
+   * Whether the browser supports picture-in-picture for the video.
+   * @type {boolean}
+   */
+  get canPictureInPicture(): boolean {
+    return document.pictureInPictureEnabled && !this.videoElement?.nativeElement.disablePictureInPicture;
+  }
+
+  /**
+   * The entries of the speed menu, one per playback rate.
+   * @type {PlayerMenuOption[]}
+   */
+  get playbackRateOptions(): PlayerMenuOption[] {
+    return this.PLAYBACK_RATES.map((rate) => ({
+      value: String(rate),
+      label: rate === 1 ? 'Normal' : formatPlaybackRate(rate),
+    }));
+  }
+
+  /**
+   * The user-readable reason of the unrecoverable error.
+   * @type {string}
+   */
+  get errorMessage(): string {
+    return getPlayerErrorMessage(this.errorKind ?? 'unknown');
+  }
+
+  /**
+   * Whether the playback position is within the intro of the loaded video.
+   * @type {boolean}
+   */
+  get isInIntro(): boolean {
+    const introEnd = this.video?.intro_end;
+    if (introEnd === undefined) return false;
+    return this.currentTime >= (this.video?.intro_start ?? 0) && this.currentTime < introEnd;
+  }
+
+  /**
+   * The entries of the audio menu, one per audio track.
+   * @type {PlayerMenuOption[]}
+   */
+  get audioOptions(): PlayerMenuOption[] {
+    return this.audioTracks.map((track) => ({ value: String(track.index), label: track.label }));
+  }
+
+  /**
+   * The entries of the subtitle menu: 'Aus' followed by every subtitle track.
+   * @type {PlayerMenuOption[]}
+   */
+  get subtitleOptions(): PlayerMenuOption[] {
+    return [
+      { value: 'off', label: 'Aus' },
+      ...this.subtitles.map((subtitle) => ({ value: subtitle.id, label: subtitle.label })),
+    ];
+  }
+
+  /**
+   * The subtitles of the video provided as WebVTT files, rendered as `<track>` elements.
+   * @type {SubtitleTrack[]}
+   */
+  get sidecarSubtitles(): SubtitleTrack[] {
+    if (!this.isMainPlayer) return [];
+    return (this.video?.subtitles ?? []).filter((track) => track.url);
+  }
+
+  /**
+   * Whether the control bar is visible: always while paused, and for a few seconds
+   * after the last interaction while playing.
+   * @type {boolean}
+   */
+  get controlsVisible(): boolean {
+    return this.showControls || !this.isPlaying;
+  }
 
   // =================================================================
   // Lifecycle Hooks (No changes needed, already short)
@@ -143,6 +617,7 @@ export class VideoPlayer
     if (this.isMainPlayer) {
       this.showControls = false;
     }
+    this.logoutSubscription = this.authService.loggedOut$.subscribe(() => this.onLoggedOut());
   }
 
   /**
@@ -172,28 +647,43 @@ export class VideoPlayer
    * This method specifically checks for changes to the `video` input property. If the
    * `video` property changes (and it's not the initial change, which is handled
    * by `ngAfterViewInit`), it triggers the `loadVideo()` method to reload the player
-   * with the new video source.
+   * with the new video source. If only the `startTime` changes, the loaded video
+   * jumps to the new position.
    *
    * The call to `loadVideo()` is deferred with `setTimeout` to prevent an
    * `ExpressionChangedAfterItHasBeenCheckedError`. This is a defensive measure
    * ensuring that the component's internal state (like `isLoading`) is not updated
    * within the same change detection cycle that delivered the new input.
    *
+   * A new object of the loaded video (e.g. fetched again when the mini-player is expanded)
+   * does not reload it, so playback continues.
+   *
    * @param {SimpleChanges} changes - An object containing the current and previous values of the input properties that have changed.
    * @returns {void}
    */
   ngOnChanges(changes: SimpleChanges): void {
-    if (changes['video'] && !changes['video'].isFirstChange()) {
+    const videoChanged =
+      changes['video'] && !changes['video'].isFirstChange() && this.video?.id !== this.loadedVideoId;
+    if (videoChanged) {
       setTimeout(() => this.loadVideo(), 0);
+    } else if (changes['startTime'] && !changes['startTime'].isFirstChange() && this.startTime !== null) {
+      this.seekTo(this.startTime);
     }
   }
 
   /**
    * Angular lifecycle hook that runs just before the component is destroyed.
-   * Cleans up resources, such as the Hls.js instance and any active timers.
+   * Saves the playback position and cleans up resources, such as the Hls.js instance
+   * and any active timers.
    */
   ngOnDestroy(): void {
+    this.saveProgress(true);
+    this.playbackRequest++;
     this.destroyHls();
+    this.thumbnailSubscription?.unsubscribe();
+    this.logoutSubscription?.unsubscribe();
+    this.stopUpNextCountdown();
+    clearTimeout(this.introSkipTimeout);
     if (this.controlsTimeout) {
       clearTimeout(this.controlsTimeout);
     }
@@ -205,106 +695,927 @@ export class VideoPlayer
 
   /**
    * Main method to orchestrate the loading of a video stream.
-   * It sets the initial loading state and delegates the playback initialization.
+   * It saves the position of the previous video, sets the initial loading and resume
+   * state and delegates the playback initialization. A given start time replaces
+   * the resume prompt.
    * @private
    */
   private loadVideo(): void {
     if (!this.video) return;
 
+    this.saveProgress(true);
+    this.loadedVideoId = this.video.id;
+    this.progressService.loadProgress();
+    this.resumePosition =
+      this.startTime === null
+        ? this.progressService.getResumePosition(this.video.id)
+        : null;
+    if (this.startTime !== null) {
+      this.seekOnLoad(this.startTime);
+    }
+    this.hideUpNext();
+    this.resetMarkers();
+    if (this.playOnLoad) {
+      this.startWhenLoaded();
+    }
+
     this.isLoading = true;
     this.hasError = false;
+    this.errorKind = null;
+    this.resetRecovery();
+    this.currentTime = 0;
+    this.duration = 0;
+    this.bufferedEnd = 0;
+    this.audioTracks = [];
+    this.currentAudioTrack = '';
 
-    const hlsUrl = this.videoService.getHlsUrl(
-      this.video.id,
-      this.currentResolution
-    );
-
-    this.initializePlayback(hlsUrl);
+    if (this.isMainPlayer) {
+      this.applyPlaybackRate();
+    }
+    this.initializePlayback(this.video);
+    if (this.isMainPlayer) {
+      this.loadSubtitles();
+      this.loadThumbnails(this.video);
+      if (!this.isMini) {
+        this.playerContainer.nativeElement.focus();
+      }
+    }
   }
 
   /**
-   * Determines the appropriate playback method (Hls.js or native) and initiates it.
-   * This is the core decision-making part of the video loading process.
+   * Loads the preview frames of a video for the seek bar. Until they are loaded,
+   * or if the video has none, the seek bar previews only the timestamp.
    * @private
-   * @param {string} hlsUrl - The URL of the .m3u8 manifest file.
+   * @param {Video} video - The video being loaded.
+   */
+  private loadThumbnails(video: Video): void {
+    this.thumbnailSubscription?.unsubscribe();
+    this.thumbnails = null;
+    this.thumbnailSubscription = this.thumbnailService
+      .getThumbnails(video)
+      .subscribe((thumbnails) => {
+        this.thumbnails = thumbnails;
+        this.cdr.markForCheck();
+      });
+  }
+
+  /**
+   * Determines the appropriate playback method (Hls.js or native) and initiates it.
+   * This is the core decision-making part of the video loading process.
+   *
+   * Hls.js is always fed a synthesized master playlist, so it can switch renditions
+   * by bandwidth in auto mode and switch seamlessly on a manual selection.
+   * Native HLS playback always uses a single rendition. If hls.js cannot be downloaded,
+   * e.g. while offline, native playback is used where available.
+   * @private
+   * @param {Video} video - The video to load.
+   * @returns {Promise<void>} Resolves once playback is initialized.
    */
-  private initializePlayback(hlsUrl: string): void {
-    if (typeof Hls !== 'undefined' && Hls.isSupported()) {
-      this.loadWithHls(hlsUrl);
+  private async initializePlayback(video: Video): Promise<void> {
+    const request = ++this.playbackRequest;
+    const HlsLibrary = await this.playerEngine.loadHls();
+    if (request !== this.playbackRequest) return;
+
+    if (HlsLibrary?.isSupported()) {
+      this.loadWithHls(HlsLibrary, this.getHlsSourceUrl(video));
     } else if (
       this.videoElement.nativeElement.canPlayType(
         'application/vnd.apple.mpegurl'
       )
     ) {
-      this.loadNative(hlsUrl);
+      this.loadNative(
+        this.videoService.getHlsUrl(video.id, this.getFixedResolution())
+      );
     } else {
       console.error('HLS is not supported in this browser');
-      this.hasError = true;
-      this.isLoading = false;
+      this.showError('unsupported');
+    }
+  }
+
+  /**
+   * Loads the video stream using the Hls.js library.
+   * Now focuses on creating the instance and attaching the media.
+   * @private
+   * @param {typeof Hls} HlsLibrary - The loaded hls.js class.
+   * @param {string} hlsUrl - The URL of the .m3u8 manifest file.
+   */
+  private loadWithHls(HlsLibrary: typeof Hls, hlsUrl: string): void {
+    const hls = new HlsLibrary({
+      xhrSetup: (xhr: XMLHttpRequest, url: string) => this.setupXhr(xhr, url),
+      startLevel: this.getStartLevel(),
+      capLevelToPlayerSize: true,
+    });
+    this.hls = hls;
+
+    hls.loadSource(hlsUrl);
+    hls.attachMedia(this.videoElement.nativeElement);
+    this.setupHlsEvents(hls, HlsLibrary.Events);
+  }
+
+  /**
+   * Registers event listeners for the Hls.js instance.
+   * This isolates the event handling logic from the HLS setup.
+   * @private
+   * @param {Hls} hls - The new Hls.js instance.
+   * @param {typeof Hls.Events} Events - The event names of the loaded hls.js library.
+   */
+  private setupHlsEvents(hls: Hls, Events: typeof Hls.Events): void {
+    hls.on(Events.MANIFEST_PARSED, () => {
+      if (this.currentResolution !== 'auto') {
+        this.switchHlsLevel();
+      }
+      if (this.autoPlay) {
+        this.play();
+      }
+    });
+
+    hls.on(Events.LEVEL_SWITCHED, (event, data) => {
+      const level = hls.levels[data.level];
+      this.autoLevelName = level ? `${level.height}p` : '';
+      this.cdr.markForCheck();
+    });
+
+    hls.on(Events.AUDIO_TRACKS_UPDATED, (event, data) => {
+      this.setAudioTracks(data.audioTracks);
+    });
+
+    hls.on(Events.AUDIO_TRACK_SWITCHED, (event, data) => {
+      this.currentAudioTrack = String(data.id);
+      this.cdr.markForCheck();
+    });
+
+    hls.on(Events.SUBTITLE_TRACKS_UPDATED, (event, data) => {
+      this.addHlsSubtitles(data.subtitleTracks);
+    });
+
+    hls.on(Events.FRAG_BUFFERED, () => {
+      if (this.recoveryAttempts > 0) {
+        this.onRecovered();
+      }
+    });
+
+    hls.on(Events.ERROR, (event, data: ErrorData) => {
+      console.error('HLS error:', data);
+      if (data.response?.code === 401) {
+        this.handleUnauthorizedHlsRequest(data);
+        return;
+      }
+      if (data.fatal) {
+        this.handleFatalHlsError(classifyHlsError(data));
+      }
+    });
+  }
+
+  /**
+   * Prepares every Hls.js request, as they bypass Angular's HttpClient and its interceptors.
+   * Requests include credentials and the JWT access token. While a token refresh is in
+   * flight, the request waits for it, so it is sent with the fresh token.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request created by Hls.js, not yet opened.
+   * @param {string} url - The URL to request.
+   * @returns {Promise<void>} Resolves once the request is opened and authorized.
+   */
+  private async setupXhr(xhr: XMLHttpRequest, url: string): Promise<void> {
+    if (this.authService.isRefreshing()) {
+      await firstValueFrom(this.authService.refreshToken()).catch(() => null);
+    }
+
+    xhr.open('GET', url, true);
+    xhr.withCredentials = true;
+
+    const accessToken = this.authService.getAccessToken();
+    if (accessToken && !url.startsWith('blob:')) {
+      xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    }
+  }
+
+  /**
+   * Handles a `401 Unauthorized` response to a playlist or segment request by refreshing
+   * the access token (shared with the HTTP interceptor) and resuming loading.
+   * Each request is retried only once: if it is still unauthorized with the fresh token
+   * (e.g. the user lacks permission), or if the refresh fails, an error is shown.
+   * @private
+   * @param {ErrorData} data - The data of the hls.js `ERROR` event.
+   */
+  private handleUnauthorizedHlsRequest(data: ErrorData): void {
+    const requestUrl = data.frag?.url ?? data.context?.url ?? data.url ?? '';
+    if (this.unauthorizedRequests.has(requestUrl)) {
+      this.hls?.stopLoad();
+      this.showError('forbidden');
+      return;
+    }
+
+    this.unauthorizedRequests.add(requestUrl);
+    this.authService.refreshToken().subscribe({
+      next: () => this.hls?.startLoad(),
+      error: () => this.showError('forbidden'),
+    });
+  }
+
+  /**
+   * Loads the video stream using the browser's native HLS capabilities.
+   * @private
+   * @param {string} hlsUrl - The URL of the .m3u8 manifest file.
+   */
+  private loadNative(hlsUrl: string): void {
+    this.videoElement.nativeElement.src = hlsUrl;
+    this.videoElement.nativeElement.load();
+  }
+
+  /**
+   * Destroys the current Hls.js instance to free up resources.
+   * @private
+   */
+  private destroyHls(): void {
+    clearTimeout(this.recoveryTimeout);
+    if (this.hls) {
+      this.hls.destroy();
+      this.hls = null;
+    }
+    if (this.masterPlaylistUrl) {
+      URL.revokeObjectURL(this.masterPlaylistUrl);
+      this.masterPlaylistUrl = null;
+    }
+    this.autoLevelName = '';
+  }
+
+  /**
+   * Creates the synthesized master playlist Hls.js should load for a video.
+   * Any previous Hls.js instance is destroyed first, as it may still use the old URL.
+   * @private
+   * @param {Video} video - The video to load.
+   * @returns {string} The URL of the .m3u8 manifest file.
+   */
+  private getHlsSourceUrl(video: Video): string {
+    this.destroyHls();
+
+    this.masterPlaylistUrl = this.videoService.createMasterPlaylistUrl(video);
+    return this.masterPlaylistUrl;
+  }
+
+  /**
+   * Returns the rendition to use when playback is limited to a single stream.
+   * @private
+   * @returns {string} The manually selected resolution, or the start resolution in auto mode.
+   */
+  private getFixedResolution(): string {
+    return this.currentResolution === 'auto'
+      ? this.startResolution
+      : this.currentResolution;
+  }
+
+  /**
+   * Returns the index of the fixed resolution within the master playlist. In auto mode
+   * this starts with a rendition that suits the screen before the bandwidth estimate settles.
+   * @private
+   * @returns {number} The level index for Hls.js, or -1 to let Hls.js decide.
+   */
+  private getStartLevel(): number {
+    return this.getLevelIndex(this.getFixedResolution());
+  }
+
+  /**
+   * Returns the index of a rendition within the synthesized master playlist.
+   * @private
+   * @param {string} resolution - The rendition name (e.g., '720p').
+   * @returns {number} The level index, or -1 if the rendition is unknown.
+   */
+  private getLevelIndex(resolution: string): number {
+    return this.videoService
+      .getRenditions()
+      .findIndex((rendition) => rendition.name === resolution);
+  }
+
+  // =================================================================
+  // Error Recovery
+  // =================================================================
+
+  /**
+   * Tries to recover from a fatal hls.js error before giving up. Network errors retry
+   * loading with an increasing delay, stepping down to a lower rendition if one is missing
+   * or keeps failing; media errors are recovered by hls.js itself. Errors that cannot be
+   * solved by retrying (e.g. missing permission) show the error overlay right away.
+   * @private
+   * @param {PlayerErrorKind} kind - The kind of the error, see `classifyHlsError`.
+   */
+  private handleFatalHlsError(kind: PlayerErrorKind): void {
+    if (kind === 'forbidden' || kind === 'unsupported' || this.recoveryAttempts >= this.MAX_RECOVERY_ATTEMPTS) {
+      this.showError(kind);
+      return;
+    }
+
+    this.recoveryAttempts++;
+    if (kind === 'media') {
+      this.recoverFromMediaError();
+    } else if (kind === 'network' || kind === 'offline' || kind === 'notFound') {
+      this.recoverFromNetworkError(kind);
+    } else {
+      this.showError(kind);
+    }
+  }
+
+  /**
+   * Resumes loading after a network error once the backoff delay has passed.
+   * @private
+   * @param {PlayerErrorKind} kind - The kind of the error.
+   */
+  private recoverFromNetworkError(kind: PlayerErrorKind): void {
+    const steppedDown = (kind === 'notFound' || this.recoveryAttempts > 1) && this.stepDownRendition();
+    if (kind === 'notFound' && !steppedDown) {
+      this.showError(kind);
+      return;
+    }
+    this.scheduleRecovery(() => this.hls?.startLoad());
+  }
+
+  /**
+   * Recovers from a media (decoding) error in tiers, escalating if the previous measure
+   * did not help: recovering the media once, then with swapped audio codec, then with
+   * a lower rendition.
+   * @private
+   */
+  private recoverFromMediaError(): void {
+    if (!this.hls) return;
+    const now = performance.now();
+    const recentlyRecovered = now - this.lastMediaRecoveryAt < this.MEDIA_RECOVERY_WINDOW_MS;
+    this.lastMediaRecoveryAt = now;
+
+    if (!recentlyRecovered) {
+      this.hls.recoverMediaError();
+    } else if (!this.codecSwapped) {
+      this.codecSwapped = true;
+      this.hls.swapAudioCodec();
+      this.hls.recoverMediaError();
+    } else if (this.stepDownRendition()) {
+      this.hls.recoverMediaError();
+    } else {
+      this.showError('media');
+    }
+  }
+
+  /**
+   * Tries to recover from an error of the `<video>` element during native HLS playback
+   * by reloading the stream at the same position, after a decoding error with a lower rendition.
+   * @private
+   * @param {PlayerErrorKind} kind - The kind of the error.
+   */
+  private recoverNativePlayback(kind: PlayerErrorKind): void {
+    const isRetryable = kind === 'network' || kind === 'offline' || kind === 'media';
+    if (!this.video || !isRetryable || this.recoveryAttempts >= this.MAX_RECOVERY_ATTEMPTS) {
+      this.showError(kind);
+      return;
+    }
+
+    this.recoveryAttempts++;
+    if (kind === 'media' && !this.stepDownRendition()) {
+      this.showError(kind);
+      return;
+    }
+    const videoId = this.video.id;
+    this.scheduleRecovery(() => this.switchNativeResolution(videoId));
+  }
+
+  /**
+   * Switches to the next lower rendition, e.g. because the current one is missing or
+   * cannot be decoded. The quality menu shows the fixed rendition afterwards.
+   * @private
+   * @returns {boolean} `false` if the lowest rendition is already playing.
+   */
+  private stepDownRendition(): boolean {
+    const level = this.hls
+      ? Math.max(this.hls.currentLevel, this.hls.loadLevel)
+      : this.getLevelIndex(this.getFixedResolution());
+    if (level <= 0) return false;
+
+    this.currentResolution = this.renditions[level - 1].name;
+    if (this.hls) {
+      this.hls.currentLevel = level - 1;
+    }
+    this.notificationService.show(
+      `Wiedergabeprobleme: Qualität auf ${this.currentResolution} reduziert`
+    );
+    return true;
+  }
+
+  /**
+   * Runs a recovery measure after a delay that doubles with every attempt (1 s, 2 s, 4 s, ...).
+   * The loading overlay tells the user that playback is being restored meanwhile.
+   * @private
+   * @param {() => void} recover - The recovery measure.
+   */
+  private scheduleRecovery(recover: () => void): void {
+    const delay = this.RECOVERY_BASE_DELAY_MS * 2 ** (this.recoveryAttempts - 1);
+    clearTimeout(this.recoveryTimeout);
+    this.isRecovering = true;
+    this.isLoading = true;
+    this.recoveryTimeout = setTimeout(recover, delay);
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Resets the recovery state once playback makes progress again.
+   * @private
+   */
+  private onRecovered(): void {
+    this.recoveryAttempts = 0;
+    this.isRecovering = false;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Resets the recovery state for a newly loaded video.
+   * @private
+   */
+  private resetRecovery(): void {
+    clearTimeout(this.recoveryTimeout);
+    this.recoveryAttempts = 0;
+    this.isRecovering = false;
+    this.lastMediaRecoveryAt = -Infinity;
+    this.codecSwapped = false;
+    this.unauthorizedRequests.clear();
+  }
+
+  /**
+   * Gives up on recovering and shows the error overlay with the reason.
+   * @private
+   * @param {PlayerErrorKind} kind - The kind of the error.
+   */
+  private showError(kind: PlayerErrorKind): void {
+    clearTimeout(this.recoveryTimeout);
+    this.errorKind = kind;
+    this.hasError = true;
+    this.isLoading = false;
+    this.isRecovering = false;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Retries automatically once the browser is back online after playback failed offline.
+   */
+  @HostListener('window:online')
+  onOnline(): void {
+    if (this.hasError && (this.errorKind === 'offline' || this.errorKind === 'network')) {
+      this.retryLoad();
+    }
+  }
+
+  // =================================================================
+  // Quality Switching
+  // =================================================================
+
+  /**
+   * Applies the current resolution setting to the running playback without restarting it.
+   * @private
+   */
+  private switchResolution(): void {
+    if (this.hls) {
+      this.switchHlsLevel();
+    } else if (this.video) {
+      this.switchNativeResolution(this.video.id);
+    }
+  }
+
+  /**
+   * Switches the Hls.js level while keeping position, play state and buffer.
+   *
+   * A manual selection uses `nextLevel`, which keeps the current fragment playing and
+   * switches once the first fragment of the new rendition is buffered. Auto mode uses
+   * `loadLevel`, which re-enables ABR for upcoming fragments without flushing the buffer.
+   * @private
+   */
+  private switchHlsLevel(): void {
+    if (!this.hls) return;
+    if (this.currentResolution === 'auto') {
+      this.hls.loadLevel = -1;
+    } else {
+      this.hls.nextLevel = this.getLevelIndex(this.currentResolution);
+    }
+  }
+
+  /**
+   * Switches the rendition for native HLS playback. The browser has to load the new
+   * stream, so the position and play state are restored once its metadata is loaded.
+   * @private
+   * @param {number} videoId - The ID of the video being played.
+   */
+  private switchNativeResolution(videoId: number): void {
+    const video = this.videoElement.nativeElement;
+    const resumeTime = video.currentTime;
+    const wasPlaying = !video.paused;
+
+    video.addEventListener(
+      'loadedmetadata',
+      () => {
+        video.currentTime = resumeTime;
+        if (wasPlaying) {
+          this.play();
+        }
+      },
+      { once: true }
+    );
+    this.loadNative(
+      this.videoService.getHlsUrl(videoId, this.getFixedResolution())
+    );
+  }
+
+  // =================================================================
+  // Audio Tracks
+  // =================================================================
+
+  /**
+   * Takes over the audio tracks hls.js found in the master playlist and switches to the
+   * preferred one.
+   * @private
+   * @param {MediaPlaylist[]} tracks - The audio tracks of hls.js (`hls.audioTracks`).
+   */
+  private setAudioTracks(tracks: MediaPlaylist[]): void {
+    if (!this.isMainPlayer) return;
+
+    this.audioTracks = tracks.map((track, index) => ({
+      index,
+      language: track.lang ?? '',
+      label: track.name,
+      isDefault: !!track.default,
+    }));
+
+    const track = this.getPreferredAudioTrack();
+    if (track && this.hls) {
+      this.hls.audioTrack = track.index;
+      this.currentAudioTrack = String(track.index);
+    }
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Chooses the audio track to start with: the preferred language, or else the language
+   * of the browser, or else the original audio of the video. If the video lacks the
+   * preferred language, the user is told which language plays instead.
+   * @private
+   * @returns {AudioOption | undefined} The track, or `undefined` if the video has none.
+   */
+  private getPreferredAudioTrack(): AudioOption | undefined {
+    if (this.audioTracks.length < 2) return this.audioTracks[0];
+
+    const preferred = this.preferencesService.getPreferences().audioLanguage;
+    const preferredTrack = findByLanguage(this.audioTracks, preferred);
+    if (preferredTrack) return preferredTrack;
+
+    const track =
+      findByLanguage(this.audioTracks, navigator.language) ??
+      this.audioTracks.find((option) => option.isDefault) ??
+      this.audioTracks[0];
+    if (preferred) {
+      const language = new Intl.DisplayNames(['de'], { type: 'language' }).of(preferred);
+      this.notificationService.show(`Kein Audio auf ${language} verfügbar, es läuft ${track.label}`);
+    }
+    return track;
+  }
+
+  /**
+   * Handles a selection in the audio menu and remembers the language for the next videos.
+   * hls.js switches the audio without interrupting playback.
+   * @param {string} value - The index of the selected audio track.
+   */
+  onAudioTrackChange(value: string): void {
+    const track = this.audioTracks[Number(value)];
+    if (!track || !this.hls) return;
+
+    this.hls.audioTrack = track.index;
+    this.currentAudioTrack = value;
+    this.preferencesService.updatePreferences({ audioLanguage: track.language });
+    this.notificationService.show(`Audio: ${track.label}`);
+    this.announce(`Audio: ${track.label}`);
+  }
+
+  // =================================================================
+  // Subtitles
+  // =================================================================
+
+  /**
+   * Lists the side-loaded subtitles of the loaded video and selects the preferred one.
+   * The `<track>` elements are rendered with the new video, so the selection is applied
+   * once the stream's metadata is loaded.
+   * @private
+   */
+  private loadSubtitles(): void {
+    this.subtitles = this.sidecarSubtitles.map((track, index) => ({
+      id: `sidecar-${index}`,
+      language: track.language,
+      label: track.label,
+      source: 'sidecar',
+      index,
+    }));
+    this.currentSubtitle = this.getPreferredSubtitleId();
+    this.videoElement.nativeElement.addEventListener(
+      'loadedmetadata',
+      () => this.applySubtitle(),
+      { once: true }
+    );
+  }
+
+  /**
+   * Adds the subtitle renditions hls.js found in the master playlist and selects
+   * the preferred track again, as it may be one of them.
+   * @private
+   * @param {MediaPlaylist[]} tracks - The subtitle tracks of hls.js (`hls.subtitleTracks`).
+   */
+  private addHlsSubtitles(tracks: MediaPlaylist[]): void {
+    if (!this.isMainPlayer) return;
+
+    this.subtitles = [
+      ...this.subtitles.filter((subtitle) => subtitle.source === 'sidecar'),
+      ...tracks.map((track, index): SubtitleOption => ({
+        id: `hls-${index}`,
+        language: track.lang ?? '',
+        label: track.name,
+        source: 'hls',
+        index,
+      })),
+    ];
+    this.currentSubtitle = this.getPreferredSubtitleId();
+    this.applySubtitle();
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Handles a selection in the subtitle menu and remembers it for the next videos.
+   * @param {string} subtitleId - The ID of the selected track, or 'off'.
+   */
+  onSubtitleChange(subtitleId: string): void {
+    this.currentSubtitle = subtitleId;
+    this.applySubtitle();
+
+    const subtitle = this.subtitles.find((option) => option.id === subtitleId);
+    this.preferencesService.updatePreferences(
+      subtitle
+        ? { subtitlesEnabled: true, subtitleLanguage: subtitle.language }
+        : { subtitlesEnabled: false }
+    );
+    const message = subtitle ? `Untertitel: ${subtitle.label}` : 'Untertitel aus';
+    this.notificationService.show(message);
+    this.announce(message);
+  }
+
+  /**
+   * Switches the subtitles on in the preferred language (or the first available one), or off.
+   * @private
+   */
+  private toggleSubtitles(): void {
+    if (this.subtitles.length === 0) return;
+
+    if (this.currentSubtitle !== 'off') {
+      this.onSubtitleChange('off');
+    } else {
+      const language = this.preferencesService.getPreferences().subtitleLanguage;
+      this.onSubtitleChange((this.findSubtitle(language) ?? this.subtitles[0]).id);
+    }
+  }
+
+  /**
+   * Applies the caption style chosen by the user and remembers it.
+   * @param {CaptionStyle} captionStyle - The new caption style.
+   */
+  onCaptionStyleChange(captionStyle: CaptionStyle): void {
+    this.captionStyle = captionStyle;
+    this.preferencesService.updatePreferences({ captionStyle });
+  }
+
+  /**
+   * Returns the track to show initially: the one in the preferred language, if the user
+   * has switched subtitles on. A video without that language starts without subtitles.
+   * @private
+   * @returns {string} The ID of the track, or 'off'.
+   */
+  private getPreferredSubtitleId(): string {
+    const preferences = this.preferencesService.getPreferences();
+    if (!preferences.subtitlesEnabled) return 'off';
+    return this.findSubtitle(preferences.subtitleLanguage)?.id ?? 'off';
+  }
+
+  /**
+   * Finds the subtitle track of a language.
+   * @private
+   * @param {string | null} language - The language code.
+   * @returns {SubtitleOption | undefined} The matching track, if any.
+   */
+  private findSubtitle(language: string | null): SubtitleOption | undefined {
+    return findByLanguage(this.subtitles, language);
+  }
+
+  /**
+   * Shows the selected subtitle track and hides all others. Side-loaded tracks are
+   * switched via the mode of their text track, hls.js renditions via `subtitleTrack`.
+   * @private
+   */
+  private applySubtitle(): void {
+    const selected = this.subtitles.find((subtitle) => subtitle.id === this.currentSubtitle);
+
+    this.subtitleTrackElements?.forEach((element, index) => {
+      const isSelected = selected?.source === 'sidecar' && selected.index === index;
+      element.nativeElement.track.mode = isSelected ? 'showing' : 'disabled';
+    });
+
+    if (this.hls) {
+      this.hls.subtitleTrack = selected?.source === 'hls' ? selected.index : -1;
+      this.hls.subtitleDisplay = selected?.source === 'hls';
+    }
+  }
+
+  // =================================================================
+  // Intro and Credits
+  // =================================================================
+
+  /**
+   * Jumps to the end of the intro.
+   * @param {Event} [event] - The click event, stopped to not toggle playback.
+   */
+  skipIntro(event?: Event): void {
+    event?.stopPropagation();
+    if (this.video?.intro_end === undefined) return;
+
+    this.seek(this.video.intro_end);
+    this.announce('Intro übersprungen');
+  }
+
+  /**
+   * Jumps back to the start of an automatically skipped intro.
+   * @param {Event} event - The click event, stopped to not toggle playback.
+   */
+  watchIntro(event: Event): void {
+    event.stopPropagation();
+    this.hideIntroAutoSkipped();
+    this.seek(this.video?.intro_start ?? 0);
+  }
+
+  /**
+   * Switches skipping intros without asking on or off and remembers the setting.
+   * @param {Event} event - The change event of the checkbox.
+   */
+  onSkipIntrosChange(event: Event): void {
+    this.skipIntros = (event.target as HTMLInputElement).checked;
+    this.preferencesService.updatePreferences({ skipIntros: this.skipIntros });
+  }
+
+  /**
+   * Reacts to the intro and credits markers of the loaded video on every position update:
+   * skips the intro if the user always skips intros, and offers the next video once the
+   * credits start. Seeking back before the credits withdraws the offer.
+   * @private
+   */
+  private checkMarkers(): void {
+    if (!this.isMainPlayer || !this.video) return;
+
+    if (this.isInIntro && this.skipIntros && !this.introSkipped) {
+      this.introSkipped = true;
+      this.skipIntro();
+      this.introAutoSkipped = true;
+      this.introSkipTimeout = setTimeout(() => {
+        this.hideIntroAutoSkipped();
+        this.cdr.markForCheck();
+      }, 5000);
+    }
+
+    const creditsStart = this.video.credits_start;
+    if (creditsStart === undefined) return;
+    if (!this.creditsReached && this.currentTime >= creditsStart) {
+      this.creditsReached = true;
+      this.showUpNext();
+    } else if (this.creditsReached && this.currentTime < creditsStart) {
+      this.creditsReached = false;
+      this.hideUpNext();
     }
   }
 
   /**
-   * Loads the video stream using the Hls.js library.
-   * Now focuses on creating the instance and attaching the media.
+   * Hides the offer to watch an automatically skipped intro.
    * @private
-   * @param {string} hlsUrl - The URL of the .m3u8 manifest file.
    */
-  private loadWithHls(hlsUrl: string): void {
-    this.destroyHls();
+  private hideIntroAutoSkipped(): void {
+    clearTimeout(this.introSkipTimeout);
+    this.introAutoSkipped = false;
+  }
 
-    this.hls = new Hls({
-      xhrSetup: (xhr: XMLHttpRequest) => {
-        xhr.withCredentials = true;
-      },
-    });
+  /**
+   * Resets the state of the intro and credits markers for a newly loaded video.
+   * @private
+   */
+  private resetMarkers(): void {
+    this.hideIntroAutoSkipped();
+    this.introSkipped = false;
+    this.creditsReached = false;
+  }
+
+  // =================================================================
+  // Up Next
+  // =================================================================
+
+  /**
+   * Offers the next video once the current one has ended or its credits have started:
+   * the next episode of a series, or else a recommendation. If autoplay is on, it starts
+   * after a countdown.
+   * @private
+   */
+  private showUpNext(): void {
+    if (!this.isMainPlayer || !this.video || this.upNext) return;
+
+    this.upNext = this.videoService.getNextVideo(this.video);
+    if (!this.upNext) return;
 
-    this.hls.loadSource(hlsUrl);
-    this.hls.attachMedia(this.videoElement.nativeElement);
-    this.setupHlsEvents();
+    this.announce(`Als Nächstes: ${this.upNext.title}`);
+    if (this.autoplayNext) {
+      this.startUpNextCountdown();
+    }
   }
 
   /**
-   * Registers event listeners for the Hls.js instance.
-   * This isolates the event handling logic from the HLS setup.
+   * Counts down the seconds until the offered video starts.
    * @private
    */
-  private setupHlsEvents(): void {
-    this.hls.on(Hls.Events.MANIFEST_PARSED, () => {
-      console.log('HLS manifest parsed successfully');
-      if (this.autoPlay) {
-        this.play();
+  private startUpNextCountdown(): void {
+    this.stopUpNextCountdown();
+    this.upNextCountdown = this.UP_NEXT_SECONDS;
+    this.upNextInterval = setInterval(() => {
+      this.upNextCountdown = (this.upNextCountdown ?? 1) - 1;
+      if (this.upNextCountdown <= 0) {
+        this.playUpNext();
       }
-    });
+      this.cdr.markForCheck();
+    }, 1000);
+  }
 
-    this.hls.on(Hls.Events.ERROR, (event: any, data: any) => {
-      console.error('HLS error:', data);
-      if (data.fatal) {
-        this.hasError = true;
-        this.isLoading = false;
-      }
-    });
+  /**
+   * Stops the countdown, leaving the offer visible.
+   * @private
+   */
+  private stopUpNextCountdown(): void {
+    if (this.upNextInterval) {
+      clearInterval(this.upNextInterval);
+      this.upNextInterval = undefined;
+    }
+    this.upNextCountdown = null;
   }
 
   /**
-   * Loads the video stream using the browser's native HLS capabilities.
+   * Hides the "Up next" overlay and stops its countdown.
    * @private
-   * @param {string} hlsUrl - The URL of the .m3u8 manifest file.
    */
-  private loadNative(hlsUrl: string): void {
-    this.videoElement.nativeElement.src = hlsUrl;
-    this.videoElement.nativeElement.load();
+  private hideUpNext(): void {
+    this.stopUpNextCountdown();
+    this.upNext = null;
   }
 
   /**
-   * Destroys the current Hls.js instance to free up resources.
+   * Continues with the offered video. The parent component loads it via its deep link,
+   * and it starts playing as soon as it is loaded.
+   * @param {Event} [event] - The click event, stopped to not toggle playback.
+   */
+  playUpNext(event?: Event): void {
+    event?.stopPropagation();
+    const next = this.upNext;
+    this.hideUpNext();
+    if (!next) return;
+
+    this.playOnLoad = true;
+    this.playVideo.emit(next);
+  }
+
+  /**
+   * Cancels the countdown and closes the offer.
+   * @param {Event} [event] - The click event, stopped to not toggle playback.
+   */
+  cancelUpNext(event?: Event): void {
+    event?.stopPropagation();
+    this.hideUpNext();
+  }
+
+  /**
+   * Switches autoplay of the next video on or off and remembers the setting.
+   * A visible offer starts or stops its countdown accordingly.
+   * @param {Event} event - The change event of the checkbox.
+   */
+  onAutoplayNextChange(event: Event): void {
+    this.autoplayNext = (event.target as HTMLInputElement).checked;
+    this.preferencesService.updatePreferences({ autoplayNext: this.autoplayNext });
+
+    if (!this.autoplayNext) {
+      this.stopUpNextCountdown();
+    } else if (this.upNext) {
+      this.startUpNextCountdown();
+    }
+  }
+
+  /**
+   * Starts playback once the loading video can play, resuming from its saved position.
    * @private
    */
-  private destroyHls(): void {
-    if (this.hls) {
-      this.hls.destroy();
-      this.hls = null;
+  private startWhenLoaded(): void {
+    this.playOnLoad = false;
+    if (this.resumePosition !== null) {
+      this.seekOnLoad(this.resumePosition);
     }
+    this.videoElement.nativeElement.addEventListener('loadedmetadata', () => this.play(), {
+      once: true,
+    });
   }
 
   // =================================================================
@@ -331,7 +1642,7 @@ export class VideoPlayer
    * property to determine which action to take.
    *
    * If the video is paused, it begins playback and calls `showControlsTemporarily()`
-   * to briefly display the browser's native controls for immediate user feedback.
+   * to briefly display the control bar for immediate user feedback.
    * If the video is already playing, it simply pauses it.
    *
    * @param {Event} [event] - The optional click event, typically passed from the template.
@@ -365,16 +1676,104 @@ export class VideoPlayer
         this.isPlaying = true;
       })
       .catch((error) => {
+        // A blocked autoplay or a play() interrupted by loading another stream is no error.
+        if (error.name === 'NotAllowedError' || error.name === 'AbortError') return;
         console.error('Play error:', error);
-        this.hasError = true;
+        this.showError('unknown');
       });
   }
 
   /**
-   * Shows the video controls for a short duration (3 seconds) and then hides them if the video is playing.
+   * Resumes playback from the saved position.
+   * @param {Event} event - The click event, stopped to not toggle playback twice.
+   */
+  resumePlayback(event: Event): void {
+    event.stopPropagation();
+    if (this.resumePosition !== null) {
+      this.videoElement.nativeElement.currentTime = this.resumePosition;
+    }
+    this.resumePosition = null;
+    this.play();
+  }
+
+  /**
+   * Discards the saved position and starts playback from the beginning.
+   * @param {Event} event - The click event, stopped to not toggle playback twice.
+   */
+  restartPlayback(event: Event): void {
+    event.stopPropagation();
+    this.videoElement.nativeElement.currentTime = 0;
+    this.resumePosition = null;
+    this.play();
+  }
+
+  /**
+   * Jumps to a position of the loaded video. If the video's metadata is not loaded yet,
+   * the position is applied as soon as it is.
+   * @private
+   * @param {number} seconds - The position to jump to.
+   */
+  private seekTo(seconds: number): void {
+    if (this.videoElement.nativeElement.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      this.videoElement.nativeElement.currentTime = seconds;
+    } else {
+      this.seekOnLoad(seconds);
+    }
+  }
+
+  /**
+   * Jumps to a position once the metadata of the next loaded stream is available.
+   * @private
+   * @param {number} seconds - The position to jump to.
+   */
+  private seekOnLoad(seconds: number): void {
+    const video = this.videoElement.nativeElement;
+    video.addEventListener(
+      'loadedmetadata',
+      () => (video.currentTime = seconds),
+      { once: true }
+    );
+  }
+
+  /**
+   * Copies a link to the video at the current playback position to the clipboard.
+   * @param {Event} event - The click event, stopped to not toggle playback.
+   */
+  shareVideo(event: Event): void {
+    event.stopPropagation();
+    if (!this.video) return;
+
+    navigator.clipboard
+      .writeText(this.getShareUrl(this.video.id))
+      .then(() =>
+        this.notificationService.show('Link in die Zwischenablage kopiert', 'success')
+      )
+      .catch(() =>
+        this.notificationService.show('Link konnte nicht kopiert werden', 'error')
+      );
+  }
+
+  /**
+   * Builds the absolute deep link to a video, including the current position as `t`.
    * @private
+   * @param {number} videoId - The ID of the video to link to.
+   * @returns {string} The link, e.g. 'https://videoflix.example/videos/3?t=754'.
+   */
+  private getShareUrl(videoId: number): string {
+    const position = Math.floor(this.videoElement.nativeElement.currentTime);
+    const tree = this.router.createUrlTree(['/videos', videoId], {
+      queryParams: position > 0 ? { t: position } : {},
+    });
+    const path = this.location.prepareExternalUrl(this.router.serializeUrl(tree));
+    return new URL(path, window.location.origin).href;
+  }
+
+  /**
+   * Shows the control bar for a short duration (3 seconds) and then hides it if the video
+   * is playing. It stays visible while the keyboard focus is within the control bar.
+   * Called on every pointer movement and key press within the player.
    */
-  private showControlsTemporarily(): void {
+  showControlsTemporarily(): void {
     this.showControls = true;
 
     if (this.controlsTimeout) {
@@ -382,46 +1781,426 @@ export class VideoPlayer
     }
 
     this.controlsTimeout = setTimeout(() => {
+      const controls = this.playerContainer.nativeElement.querySelector('app-player-controls');
+      if (controls?.contains(document.activeElement)) {
+        this.showControlsTemporarily();
+        return;
+      }
       if (!this.videoElement.nativeElement.paused) {
         this.showControls = false;
+        this.cdr.markForCheck();
       }
     }, 3000);
   }
 
+  // =================================================================
+  // Control Bar Actions
+  // =================================================================
+
+  /**
+   * Jumps to a position, e.g. from the seek bar.
+   * @param {number} seconds - The position to jump to, clamped to the video's duration.
+   */
+  seek(seconds: number): void {
+    const video = this.videoElement.nativeElement;
+    const end = isFinite(video.duration) ? video.duration : seconds;
+    video.currentTime = Math.min(Math.max(seconds, 0), end);
+    this.currentTime = video.currentTime;
+  }
+
+  /**
+   * Jumps forward or backward relative to the current position.
+   * @param {number} delta - The number of seconds to skip; negative values rewind.
+   */
+  seekBy(delta: number): void {
+    this.seek(this.videoElement.nativeElement.currentTime + delta);
+    this.announce(`${formatTime(this.currentTime)} von ${formatTime(this.duration)}`);
+  }
+
+  /**
+   * Sets the volume and unmutes the video if the volume is above zero.
+   * @param {number} volume - The volume between 0 and 1.
+   */
+  setVolume(volume: number): void {
+    const video = this.videoElement.nativeElement;
+    video.volume = Math.min(Math.max(Math.round(volume * 100) / 100, 0), 1);
+    video.muted = video.volume === 0;
+  }
+
+  /**
+   * Mutes or unmutes the video.
+   */
+  toggleMute(): void {
+    const video = this.videoElement.nativeElement;
+    video.muted = !video.muted;
+    if (!video.muted && video.volume === 0) {
+      video.volume = this.VOLUME_STEP * 10;
+    }
+  }
+
+  /**
+   * Enters or leaves fullscreen mode. The whole player is shown in fullscreen, so the
+   * control bar stays available. Browsers without the Fullscreen API on elements
+   * (iOS Safari) fall back to the native fullscreen mode of the video element.
+   */
+  toggleFullscreen(): void {
+    const container = this.playerContainer.nativeElement;
+    const video = this.videoElement.nativeElement as HTMLVideoElement & {
+      webkitEnterFullscreen?: () => void;
+    };
+
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else if (container.requestFullscreen) {
+      container.requestFullscreen().catch((error) => console.error('Fullscreen error:', error));
+    } else {
+      video.webkitEnterFullscreen?.();
+    }
+  }
+
+  /**
+   * Opens the video in a picture-in-picture window, or closes the window.
+   * It stays open while the user navigates, as the player continues as a mini-player.
+   */
+  togglePictureInPicture(): void {
+    if (document.pictureInPictureElement) {
+      document.exitPictureInPicture();
+      return;
+    }
+    this.videoElement.nativeElement.requestPictureInPicture().catch((error) => {
+      console.error('Picture-in-picture error:', error);
+      this.notificationService.show('Bild-im-Bild ist nicht verfügbar', 'error');
+    });
+  }
+
+  /**
+   * Steps the playback rate up or down through `PLAYBACK_RATES`.
+   * @private
+   * @param {number} direction - 1 to speed up, -1 to slow down.
+   */
+  private stepPlaybackRate(direction: number): void {
+    const index = this.PLAYBACK_RATES.indexOf(this.playbackRate);
+    const current = index === -1 ? this.PLAYBACK_RATES.indexOf(1) : index;
+    const next = Math.min(Math.max(current + direction, 0), this.PLAYBACK_RATES.length - 1);
+
+    this.setPlaybackRate(this.PLAYBACK_RATES[next]);
+    this.notificationService.show(`Geschwindigkeit ${formatPlaybackRate(this.playbackRate)}`);
+    this.announce(`Geschwindigkeit ${formatPlaybackRate(this.playbackRate)}`);
+  }
+
+  /**
+   * Handles the selection of a playback rate in the speed menu.
+   * @param {string} value - The selected rate (e.g. '1.5').
+   */
+  onPlaybackRateChange(value: string): void {
+    this.setPlaybackRate(Number(value));
+  }
+
+  /**
+   * Changes the playback rate and remembers it for the following videos.
+   * @private
+   * @param {number} rate - The new rate, 1 being normal speed.
+   */
+  private setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
+    this.preferencesService.updatePreferences({ playbackRate: rate });
+    this.applyPlaybackRate();
+  }
+
+  /**
+   * Applies the playback rate to the `<video>` element. It is also set as the default
+   * rate, which the element falls back to whenever a new stream is loaded. The pitch
+   * is preserved, so voices do not sound higher or lower at other speeds.
+   * @private
+   */
+  private applyPlaybackRate(): void {
+    const video = this.videoElement.nativeElement;
+    video.preservesPitch = true;
+    video.defaultPlaybackRate = this.playbackRate;
+    video.playbackRate = this.playbackRate;
+  }
+
+  // =================================================================
+  // Keyboard Shortcuts
+  // =================================================================
+
+  /**
+   * Handles the keyboard shortcuts of the main player, modeled after YouTube:
+   * space/k play/pause, j/l ±10s, ←/→ ±5s, ↑/↓ volume, m mute, f fullscreen,
+   * c subtitles, i picture-in-picture, 0–9 jump to 0–90 %, and `<`/`>` playback speed.
+   *
+   * Space and Enter on a focused button activate the button instead, and keys
+   * handled by a focused control (e.g. the arrow keys of an open menu) do not
+   * reach this handler.
+   * @param {KeyboardEvent} event - The keydown event from the player container.
+   */
+  onKeyDown(event: KeyboardEvent): void {
+    if (!this.isMainPlayer || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const target = event.target as HTMLElement;
+    if ((event.key === ' ' || event.key === 'Enter') && target.closest('button')) return;
+
+    if (this.handleShortcut(event.key)) {
+      event.preventDefault();
+      this.showControlsTemporarily();
+    }
+  }
+
+  /**
+   * Runs the action bound to a key.
+   * @private
+   * @param {string} key - The `key` value of the keyboard event.
+   * @returns {boolean} `true` if the key is a shortcut.
+   */
+  private handleShortcut(key: string): boolean {
+    switch (key.length === 1 ? key.toLowerCase() : key) {
+      case ' ':
+      case 'k':
+        this.togglePlay();
+        break;
+      case 'j':
+        this.seekBy(-10);
+        break;
+      case 'l':
+        this.seekBy(10);
+        break;
+      case 'ArrowLeft':
+        this.seekBy(-5);
+        break;
+      case 'ArrowRight':
+        this.seekBy(5);
+        break;
+      case 'ArrowUp':
+        this.changeVolumeBy(this.VOLUME_STEP);
+        break;
+      case 'ArrowDown':
+        this.changeVolumeBy(-this.VOLUME_STEP);
+        break;
+      case 'm':
+        this.toggleMute();
+        this.announce(this.videoElement.nativeElement.muted ? 'Ton aus' : 'Ton an');
+        break;
+      case 'f':
+        this.toggleFullscreen();
+        break;
+      case 'i':
+        if (!this.canPictureInPicture) return false;
+        this.togglePictureInPicture();
+        break;
+      case 'Escape':
+        if (!this.upNext) return false;
+        this.cancelUpNext();
+        break;
+      case 'c':
+        if (this.subtitles.length === 0) return false;
+        this.toggleSubtitles();
+        break;
+      case '<':
+        this.stepPlaybackRate(-1);
+        break;
+      case '>':
+        this.stepPlaybackRate(1);
+        break;
+      default:
+        if (!/^[0-9]$/.test(key) || !this.duration) return false;
+        this.seek((this.duration * Number(key)) / 10);
+        break;
+    }
+    return true;
+  }
+
+  /**
+   * Changes the volume relative to the current one and announces the result.
+   * @private
+   * @param {number} delta - The change between -1 and 1.
+   */
+  private changeVolumeBy(delta: number): void {
+    const video = this.videoElement.nativeElement;
+    this.setVolume((video.muted ? 0 : video.volume) + delta);
+    this.announce(`Lautstärke ${Math.round(video.volume * 100)} %`);
+  }
+
+  /**
+   * Announces a message to screen readers via the player's live region.
+   * @private
+   * @param {string} message - The message to announce.
+   */
+  private announce(message: string): void {
+    this.announcement = message;
+  }
+
   // =================================================================
   // Event Handlers & Misc (No changes needed, already short)
   // =================================================================
 
   /**
-   * Sets a default video resolution based on the current screen width.
+   * Sets the start resolution for auto mode based on the current screen width.
    * @private
    */
   private setDefaultResolution(): void {
     const screenWidth = window.innerWidth;
     if (screenWidth < 720) {
-      this.currentResolution = '480p'; // Mobile
+      this.startResolution = '480p'; // Mobile
     } else if (screenWidth < 1920) {
-      this.currentResolution = '720p'; // Laptop/Tablet
+      this.startResolution = '720p'; // Laptop/Tablet
     } else {
-      this.currentResolution = '1080p'; // Desktop
+      this.startResolution = '1080p'; // Desktop
     }
-    console.log(
-      `%c[VideoPlayer] Default resolution set to: ${this.currentResolution} based on screen width ${screenWidth}px`,
-      'color: orange;'
-    );
   }
 
   /**
-   * Handles the change event from the resolution selector.
-   * Reloads the video with the newly selected resolution.
-   * @param {Event} event - The change event from the <select> element.
+   * Handles a selection in the quality menu.
+   * Switches to the newly selected resolution without interrupting playback.
+   * @param {string} resolution - The selected resolution (e.g., '720p' or 'auto').
    */
-  onResolutionChange(event: Event): void {
-    const select = event.target as HTMLSelectElement;
-    this.currentResolution = select.value;
-    this.loadVideo();
+  onResolutionChange(resolution: string): void {
+    this.currentResolution = resolution;
+    this.switchResolution();
     this.notificationService.show(
-      `Qualität auf ${this.currentResolution} umgeschaltet`
+      `Qualität auf ${this.getResolutionLabel(this.currentResolution)} umgeschaltet`
+    );
+  }
+
+  /**
+   * Returns the display label for a resolution option of the selector.
+   * @param {string} resolution - The resolution value (e.g., '720p' or 'auto').
+   * @returns {string} The label, e.g. 'Auto (720p)' while hls.js plays the 720p rendition.
+   */
+  getResolutionLabel(resolution: string): string {
+    if (resolution !== 'auto') return resolution;
+    return this.autoLevelName ? `Auto (${this.autoLevelName})` : 'Auto';
+  }
+
+  /**
+   * Event handler for the 'play' video event. Hides the resume prompt, and the "Up next"
+   * overlay unless it was opened by the credits.
+   */
+  onPlay(): void {
+    this.isPlaying = true;
+    this.resumePosition = null;
+    if (!this.creditsReached) {
+      this.hideUpNext();
+    }
+  }
+
+  /**
+   * Event handler for the 'pause' video event. Saves the position immediately.
+   */
+  onPause(): void {
+    this.isPlaying = false;
+    this.saveProgress(true);
+  }
+
+  /**
+   * Event handler for the 'ended' video event. Offers the next video.
+   */
+  onEnded(): void {
+    this.onPause();
+    this.showUpNext();
+  }
+
+  /**
+   * Event handler for the 'timeupdate' video event. Updates the control bar and reports
+   * the position, which the progress service persists in throttled intervals. Playback in
+   * the main player counts as activity, so the session does not expire while watching.
+   */
+  onTimeUpdate(): void {
+    const video = this.videoElement.nativeElement;
+    this.currentTime = video.currentTime;
+    this.checkMarkers();
+    this.updateBufferedEnd();
+    this.saveProgress(false);
+    if (this.isMainPlayer && !video.paused) {
+      this.sessionTimeout.reportPlayback();
+    }
+  }
+
+  /**
+   * Event handler for the 'durationchange' video event.
+   */
+  onDurationChange(): void {
+    const duration = this.videoElement.nativeElement.duration;
+    this.duration = isFinite(duration) ? duration : 0;
+  }
+
+  /**
+   * Event handler for the 'ratechange' video event. Syncs the speed menu, e.g. with a rate
+   * changed via the browser's own controls.
+   */
+  onRateChange(): void {
+    if (this.isMainPlayer) {
+      this.playbackRate = this.videoElement.nativeElement.playbackRate;
+    }
+  }
+
+  /**
+   * Event handler for the 'volumechange' video event. Syncs the volume controls.
+   */
+  onVolumeChange(): void {
+    this.volume = this.videoElement.nativeElement.volume;
+    this.muted = this.videoElement.nativeElement.muted;
+  }
+
+  /**
+   * Event handler for the 'enterpictureinpicture' and 'leavepictureinpicture' video events.
+   * @param {boolean} active - Whether the video is now shown in a picture-in-picture window.
+   */
+  onPictureInPictureChange(active: boolean): void {
+    this.isPictureInPicture = active;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Event handler for the document's 'fullscreenchange' event.
+   */
+  @HostListener('document:fullscreenchange')
+  onFullscreenChange(): void {
+    this.isFullscreen =
+      !!this.playerContainer &&
+      document.fullscreenElement === this.playerContainer.nativeElement;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Updates the end of the buffered range that contains the current position,
+   * shown on the seek bar. Called on the 'progress' and 'timeupdate' video events.
+   */
+  updateBufferedEnd(): void {
+    const video = this.videoElement.nativeElement;
+    for (let i = 0; i < video.buffered.length; i++) {
+      if (video.buffered.start(i) <= video.currentTime && video.currentTime <= video.buffered.end(i)) {
+        this.bufferedEnd = video.buffered.end(i);
+        return;
+      }
+    }
+    this.bufferedEnd = video.currentTime;
+  }
+
+  /**
+   * Saves the position and stops playback when the session ends, while the user is still
+   * known. The player is closed afterwards without saving again.
+   * @private
+   */
+  private onLoggedOut(): void {
+    this.saveProgress(true);
+    this.loadedVideoId = null;
+    this.videoElement?.nativeElement.pause();
+  }
+
+  /**
+   * Reports the current playback position of the loaded video to the progress service.
+   * @private
+   * @param {boolean} force - Persists the position immediately instead of throttled.
+   */
+  private saveProgress(force: boolean): void {
+    const video = this.videoElement?.nativeElement;
+    if (this.loadedVideoId === null || !video || video.currentTime === 0) return;
+
+    this.progressService.trackProgress(
+      this.loadedVideoId,
+      video.currentTime,
+      video.duration,
+      force
     );
   }
 
@@ -433,27 +2212,40 @@ export class VideoPlayer
   }
 
   /**
-   * Event handler for the 'loadeddata' video event. Clears the loading state.
+   * Event handler for the 'loadeddata' video event. Clears the loading state and,
+   * during native playback, the recovery state.
    */
   onLoadedData(): void {
     this.isLoading = false;
+    if (!this.hls && this.recoveryAttempts > 0) {
+      this.onRecovered();
+    }
   }
 
   /**
-   * Event handler for the 'error' video event. Sets the error state.
+   * Event handler for the 'error' video event. While hls.js plays the video, it reports
+   * its errors (including decoding errors) itself via `Events.ERROR`, so they are ignored here.
+   * During native playback, the error is classified and recovered from if possible.
    * @param {Event} event - The error event.
    */
   onVideoError(event: Event): void {
     console.error('Video error:', event);
-    this.hasError = true;
-    this.isLoading = false;
+    if (this.hls) return;
+
+    this.recoverNativePlayback(classifyMediaError(this.videoElement.nativeElement.error));
   }
 
   /**
    * Allows the user to retry loading the video after an error has occurred.
+   * Playback continues at the position where the error occurred.
    */
   retryLoad(): void {
+    const position = this.videoElement.nativeElement.currentTime || this.currentTime;
     this.hasError = false;
     this.loadVideo();
+    if (position > 0) {
+      this.resumePosition = null;
+      this.seekOnLoad(position);
+    }
   }
 }
@@ -0,0 +1,188 @@
+// =================================================================
+// Standard Angular and RxJS Imports
+// =================================================================
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { ActivatedRoute, ParamMap, Router } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { Observable, Subscription } from 'rxjs';
+import { distinctUntilChanged, map, shareReplay, switchMap } from 'rxjs/operators';
+
+// =================================================================
+// Custom Application-Specific Imports
+// =================================================================
+import { VideoService } from '../../shared/services/video.service';
+import { PlaybackProgressService } from '../../shared/services/playback-progress.service';
+import { Video } from '../../shared/interfaces/api.interfaces';
+import { VideoSearchQuery, VideoSearchSort } from '../../shared/interfaces/search.interfaces';
+import { getCategoryDisplayName } from '../../shared/utils/category.utils';
+import { VideoCard } from '../video-list/video-card/video-card';
+import { VideoHeader } from '../../shared/video-header/video-header';
+import { Footer } from '../../shared/footer/footer';
+
+/**
+ * @Component
+ * Defines the metadata for the VideoSearch component.
+ *
+ * @description
+ * The search results page (`videos/search?q=&category=&sort=`). The URL is the single
+ * source of truth for the query, so searches can be bookmarked, shared and navigated
+ * with the browser's back button. Matching terms are highlighted on the video cards.
+ */
+@Component({
+  selector: 'app-video-search',
+  standalone: true,
+  imports: [CommonModule, VideoCard, VideoHeader, Footer],
+  templateUrl: './video-search.html',
+  styleUrls: ['./video-search.scss'],
+})
+export class VideoSearch implements OnInit, OnDestroy {
+  /**
+   * An observable stream of the search query, as encoded in the URL.
+   */
+  query$: Observable<VideoSearchQuery>;
+  /**
+   * An observable stream of the videos matching the current query.
+   */
+  results$: Observable<Video[]>;
+
+  /**
+   * An array of unique video category names, offered as a filter.
+   */
+  categories: string[] = [];
+
+  /**
+   * The available sort orders and their labels.
+   */
+  readonly sortOptions: { value: VideoSearchSort; label: string }[] = [
+    { value: 'relevance', label: 'Relevanz' },
+    { value: 'newest', label: 'Neueste zuerst' },
+    { value: 'title', label: 'Titel (A–Z)' },
+  ];
+
+  /**
+   * A collection of all active subscriptions to be cleaned up on component destruction.
+   * @private
+   */
+  private subscriptions = new Subscription();
+
+  /**
+   * The constructor for the VideoSearch component.
+   * @param {VideoService} videoService Service for searching and loading videos.
+   * @param {PlaybackProgressService} progressService Service for the user's playback progress.
+   * @param {ActivatedRoute} route The current route, providing the query parameters.
+   * @param {Router} router Angular service for navigation.
+   */
+  constructor(
+    private videoService: VideoService,
+    private progressService: PlaybackProgressService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {
+    this.query$ = this.route.queryParamMap.pipe(
+      map((params) => this.toSearchQuery(params)),
+      distinctUntilChanged(
+        (a, b) => a.q === b.q && a.category === b.category && a.sort === b.sort
+      ),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+    this.results$ = this.query$.pipe(
+      switchMap((query) => this.videoService.searchVideos(query))
+    );
+  }
+
+  /**
+   * Angular lifecycle hook. Loads the progress and every page of the catalog that is not
+   * loaded yet, so the category filter offers all categories, and keeps it in sync with the videos.
+   */
+  ngOnInit(): void {
+    this.progressService.loadProgress();
+    this.subscriptions.add(this.videoService.loadAllVideos().subscribe());
+    this.subscriptions.add(
+      this.videoService.videos$.subscribe(() => {
+        this.categories = this.videoService.getCategories();
+      })
+    );
+  }
+
+  /**
+   * Angular lifecycle hook. Cleans up all subscriptions to prevent memory leaks.
+   */
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  /**
+   * Handles the change event of the category filter.
+   * @param {Event} event The change event from the <select> element.
+   */
+  onCategoryChange(event: Event): void {
+    const category = (event.target as HTMLSelectElement).value;
+    this.updateQueryParams({ category: category || null });
+  }
+
+  /**
+   * Handles the change event of the sort selector.
+   * @param {Event} event The change event from the <select> element.
+   */
+  onSortChange(event: Event): void {
+    const sort = (event.target as HTMLSelectElement).value;
+    this.updateQueryParams({ sort: sort === 'relevance' ? null : sort });
+  }
+
+  /**
+   * Opens a video from the results in the player.
+   * @param {Video} video The video to be played.
+   */
+  onPlayVideo(video: Video): void {
+    this.router.navigate(['/videos', video.id]);
+  }
+
+  /**
+   * Returns how much of a video the user has already watched.
+   * @param {Video} video The video to look up.
+   * @returns {number | null} A ratio between 0 and 1, or `null` if the video was not started.
+   */
+  getProgress(video: Video): number | null {
+    return this.progressService.getProgressRatio(video.id);
+  }
+
+  /**
+   * Gets the display-friendly name for a given category key.
+   * @param {string} category The category key (e.g., 'scifi').
+   * @returns {string} The display name (e.g., 'Science Fiction').
+   */
+  getCategoryDisplayName(category: string): string {
+    return getCategoryDisplayName(category);
+  }
+
+  /**
+   * Reads the search query from the URL's query parameters. Unknown sort orders
+   * fall back to `relevance`.
+   * @private
+   * @param {ParamMap} params The query parameters.
+   * @returns {VideoSearchQuery} The search query.
+   */
+  private toSearchQuery(params: ParamMap): VideoSearchQuery {
+    const sort = params.get('sort') as VideoSearchSort;
+    return {
+      q: params.get('q') ?? '',
+      category: params.get('category') || null,
+      sort: this.sortOptions.some((option) => option.value === sort) ? sort : 'relevance',
+    };
+  }
+
+  /**
+   * Updates some query parameters while keeping the others. The current history
+   * entry is replaced, so changing filters does not flood the browser history.
+   * @private
+   * @param {Record<string, string | null>} queryParams The parameters to set; `null` removes one.
+   */
+  private updateQueryParams(queryParams: Record<string, string | null>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * API Response Schemas
+ * Runtime counterparts of the response interfaces in `api.interfaces.ts`,
+ * used by `ApiClient` to detect when the backend's response shape drifts.
+ */
+import * as s from './schema';
+import {
+  User,
+  MessageResponse,
+  CsrfTokenResponse,
+  LoginResponse,
+  TokenRefreshResponse,
+  Video,
+  VideoListResponse,
+  ThumbnailSprite,
+  SubtitleTrack,
+  AudioTrack,
+} from '../interfaces/api.interfaces';
+import { PlaybackProgress } from '../interfaces/player.interfaces';
+
+export const userSchema = s.object<User>({
+  id: s.number,
+  email: s.string,
+  first_name: s.optional(s.string),
+  last_name: s.optional(s.string),
+  is_active: s.optional(s.boolean),
+  date_joined: s.optional(s.string),
+});
+
+export const messageResponseSchema = s.object<MessageResponse>({
+  message: s.optional(s.string),
+  detail: s.optional(s.string),
+});
+
+export const csrfTokenResponseSchema = s.object<CsrfTokenResponse>({
+  detail: s.optional(s.string),
+  csrfToken: s.optional(s.string),
+});
+
+export const loginResponseSchema = s.object<LoginResponse>({
+  message: s.optional(s.string),
+  detail: s.optional(s.string),
+  access: s.optional(s.string),
+  refresh: s.optional(s.string),
+  user: s.optional(userSchema),
+});
+
+export const tokenRefreshResponseSchema = s.object<TokenRefreshResponse>({
+  message: s.optional(s.string),
+  detail: s.optional(s.string),
+  access: s.optional(s.string),
+  refresh: s.optional(s.string),
+});
+
+export const thumbnailSpriteSchema = s.object<ThumbnailSprite>({
+  url: s.string,
+  interval: s.number,
+  columns: s.number,
+  width: s.number,
+  height: s.number,
+});
+
+export const subtitleTrackSchema = s.object<SubtitleTrack>({
+  language: s.string,
+  label: s.string,
+  url: s.optional(s.string),
+  playlist: s.optional(s.string),
+});
+
+export const audioTrackSchema = s.object<AudioTrack>({
+  language: s.string,
+  label: s.string,
+  playlist: s.optional(s.string),
+});
+
+export const videoSchema = s.object<Video>({
+  id: s.number,
+  title: s.string,
+  description: s.optional(s.string),
+  video_file: s.optional(s.string),
+  thumbnail_url: s.optional(s.string),
+  category: s.optional(s.string),
+  created_at: s.optional(s.string),
+  thumbnails_vtt: s.optional(s.string),
+  thumbnail_sprite: s.optional(thumbnailSpriteSchema),
+  series_id: s.optional(s.number),
+  season: s.optional(s.number),
+  episode: s.optional(s.number),
+  intro_start: s.optional(s.number),
+  intro_end: s.optional(s.number),
+  credits_start: s.optional(s.number),
+  subtitles: s.optional(s.array(subtitleTrackSchema)),
+  audio_tracks: s.optional(s.array(audioTrackSchema)),
+});
+
+export const videoListSchema = s.array(videoSchema);
+
+export const videoListResponseSchema = s.object<VideoListResponse>({
+  count: s.number,
+  results: videoListSchema,
+  next: s.optional(s.string),
+  previous: s.optional(s.string),
+});
+
+// `video/` is paginated when the backend enables pagination, and a plain array otherwise.
+export const videoPageSchema = s.oneOf(videoListResponseSchema, videoListSchema);
+
+export const playbackProgressSchema = s.object<PlaybackProgress>({
+  video_id: s.number,
+  position: s.number,
+  duration: s.number,
+  updated_at: s.string,
+});
+
+export const playbackProgressListSchema = s.array(playbackProgressSchema);
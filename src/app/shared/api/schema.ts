@@ -0,0 +1,176 @@
+/**
+ * @fileoverview
+ * A minimal runtime schema library for validating API responses.
+ *
+ * A `Schema<T>` is a function that checks an unknown value and returns it typed as `T`,
+ * or throws a `SchemaViolation` describing where the value differs from the expectation.
+ * Object schemas only check the declared keys and keep any additional ones.
+ */
+
+/**
+ * A validator that returns the checked value typed as `T`.
+ * @param {unknown} value The value to check.
+ * @param {string} path The location of the value within the response, used in error messages.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * Thrown by a schema when a value does not match it.
+ */
+export class SchemaViolation extends Error {
+  /**
+   * @param {string} path The location of the mismatching value (e.g. `$.results[3].id`).
+   * @param {string} expected A description of the expected type.
+   * @param {unknown} actual The value that was found instead.
+   */
+  constructor(
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly actual: unknown
+  ) {
+    super(`${path}: expected ${expected}, got ${describe(actual)}`);
+    this.name = 'SchemaViolation';
+  }
+}
+
+/**
+ * Thrown by the API client when a response does not match its schema,
+ * i.e. the backend's response shape has drifted from the frontend's interfaces.
+ */
+export class ApiSchemaError extends Error {
+  /**
+   * @param {string} endpoint The endpoint whose response was invalid.
+   * @param {SchemaViolation} violation The first mismatch found in the response.
+   */
+  constructor(
+    public readonly endpoint: string,
+    public readonly violation: SchemaViolation
+  ) {
+    super(`Unexpected response from ${endpoint}: ${violation.message}`);
+    this.name = 'ApiSchemaError';
+  }
+}
+
+/**
+ * Validates a response against a schema.
+ *
+ * @param {Schema<T>} schema The schema the response must match.
+ * @param {unknown} value The response body.
+ * @param {string} endpoint The endpoint the response came from, used in error messages.
+ * @returns {T} The validated response.
+ * @throws {ApiSchemaError} If the response does not match the schema.
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, endpoint: string): T {
+  try {
+    return schema(value, '$');
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      throw new ApiSchemaError(endpoint, error);
+    }
+    throw error;
+  }
+}
+
+// =================================================================
+// Primitive Schemas
+// =================================================================
+
+/** Accepts any string. */
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') throw new SchemaViolation(path, 'string', value);
+  return value;
+};
+
+/** Accepts any finite number. */
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !isFinite(value)) throw new SchemaViolation(path, 'number', value);
+  return value;
+};
+
+/** Accepts `true` or `false`. */
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaViolation(path, 'boolean', value);
+  return value;
+};
+
+/** Accepts any value without checking it, e.g. for responses that are ignored. */
+export const unknown: Schema<unknown> = (value) => value;
+
+// =================================================================
+// Composite Schemas
+// =================================================================
+
+/**
+ * Makes a value optional. `null` is accepted as well and normalized to `undefined`,
+ * as Django REST framework serializes missing values as `null`.
+ * @param {Schema<T>} schema The schema for a present value.
+ * @returns {Schema<T | undefined>} The optional schema.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+/**
+ * Accepts an array whose items all match a schema.
+ * @param {Schema<T>} item The schema for each item.
+ * @returns {Schema<T[]>} The array schema.
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaViolation(path, 'array', value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Accepts an object whose declared keys match their schemas. Additional keys are kept.
+ * @param {{ [K in keyof T]-?: Schema<T[K]> }} shape A schema for every key of `T`.
+ * @returns {Schema<T>} The object schema.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaViolation(path, 'object', value);
+    }
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape)) {
+      const schema = shape[key as keyof T] as Schema<unknown>;
+      const checked = schema((value as Record<string, unknown>)[key], `${path}.${key}`);
+      if (checked !== undefined) {
+        result[key] = checked;
+      } else {
+        delete result[key];
+      }
+    }
+    return result as T;
+  };
+}
+
+/**
+ * Accepts a value matching the first schema that does not throw.
+ * @param {Schema<A>} first The preferred schema.
+ * @param {Schema<B>} second The fallback schema.
+ * @returns {Schema<A | B>} The union schema.
+ */
+export function oneOf<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return (value, path) => {
+    try {
+      return first(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaViolation)) throw error;
+      return second(value, path);
+    }
+  };
+}
+
+/**
+ * Describes a value for an error message.
+ * @param {unknown} value The value to describe.
+ * @returns {string} E.g. 'null', 'array' or 'string "abc"'.
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.slice(0, 40)}"`;
+  return typeof value;
+}
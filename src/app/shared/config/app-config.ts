@@ -0,0 +1,125 @@
+import { InjectionToken, Provider } from '@angular/core';
+
+/**
+ * Optional features that can be switched on or off per deployment.
+ */
+export interface AppFeatures {
+  /** Stores playback progress on the backend instead of in localStorage. */
+  progressSync: boolean;
+  /** Searches videos via the API's `search` filter instead of filtering the loaded videos. */
+  backendSearch: boolean;
+}
+
+/**
+ * Settings of the inactivity logout.
+ */
+export interface SessionConfig {
+  /** Logs the user out after this many minutes without activity (0 to disable). */
+  idleTimeoutMinutes: number;
+  /** How many seconds before the session expires the user is asked to extend it. */
+  warningSeconds: number;
+}
+
+/**
+ * Settings of the in-memory mock backend used for offline development and tests.
+ */
+export interface MockBackendConfig {
+  /** Serves all API requests from the mock backend instead of the real server. */
+  enabled: boolean;
+  /** The simulated response time in milliseconds. */
+  latencyMs: number;
+  /** The share of requests (0 to 1) that randomly fail with a server error. */
+  errorRate: number;
+  /** Endpoint path prefixes (e.g. 'video/') that always fail, mapped to their HTTP status. */
+  failEndpoints: Record<string, number>;
+  /** Caps the page size of the video list (0 for no cap), to exercise paging with few videos. */
+  maxPageSize: number;
+}
+
+/**
+ * The runtime configuration of the application, loaded from `config.json` at startup.
+ * This allows one build to be deployed against different backends (e.g. staging and production).
+ */
+export interface AppConfig {
+  /** The base URL of the REST API, ending with a slash (e.g. '/api/' or 'https://api.example.com/api/'). */
+  apiBaseUrl: string;
+  /** The base URL the HLS streams are served from, ending with a slash. */
+  mediaBaseUrl: string;
+  /** The feature toggles of this deployment. */
+  features: AppFeatures;
+  /** The settings of the inactivity logout. */
+  session: SessionConfig;
+  /** The settings of the in-memory mock backend. */
+  mockBackend: MockBackendConfig;
+}
+
+/**
+ * The configuration used when `config.json` is missing or incomplete.
+ * The relative URLs are served through the dev-server proxy (`proxy.conf.json`).
+ */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  apiBaseUrl: '/api/',
+  mediaBaseUrl: '/api/',
+  features: {
+    progressSync: false,
+    backendSearch: false,
+  },
+  session: {
+    idleTimeoutMinutes: 30,
+    warningSeconds: 60,
+  },
+  mockBackend: {
+    enabled: false,
+    latencyMs: 300,
+    errorRate: 0,
+    failEndpoints: {},
+    maxPageSize: 0,
+  },
+};
+
+/**
+ * The injection token for the runtime configuration. It falls back to
+ * `DEFAULT_APP_CONFIG` if no configuration was provided (e.g. in unit tests).
+ */
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_APP_CONFIG,
+});
+
+/**
+ * Fetches the runtime configuration. Missing values are filled in from
+ * `DEFAULT_APP_CONFIG`; if the file cannot be loaded, the defaults are used.
+ *
+ * @param {string} [url='config.json'] The URL of the configuration file, relative to the base href.
+ * @returns {Promise<AppConfig>} A promise that resolves with the merged configuration.
+ */
+export async function loadAppConfig(url = 'config.json'): Promise<AppConfig> {
+  try {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const config: Partial<AppConfig> = await response.json();
+
+    return {
+      ...DEFAULT_APP_CONFIG,
+      ...config,
+      features: { ...DEFAULT_APP_CONFIG.features, ...config.features },
+      session: { ...DEFAULT_APP_CONFIG.session, ...config.session },
+      mockBackend: { ...DEFAULT_APP_CONFIG.mockBackend, ...config.mockBackend },
+    };
+  } catch (error) {
+    console.warn(`Could not load ${url}, using the default configuration.`, error);
+    return DEFAULT_APP_CONFIG;
+  }
+}
+
+/**
+ * Creates the provider that makes a loaded configuration available via `APP_CONFIG`.
+ *
+ * @param {AppConfig} config The loaded runtime configuration.
+ * @returns {Provider} The provider for the application's root injector.
+ */
+export function provideAppConfig(config: AppConfig): Provider {
+  return { provide: APP_CONFIG, useValue: config };
+}
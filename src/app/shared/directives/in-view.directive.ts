@@ -0,0 +1,74 @@
+import {
+  Directive,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnDestroy,
+  OnInit,
+  Output,
+} from '@angular/core';
+
+/**
+ * @Directive
+ * Emits an event whenever its element scrolls into view.
+ *
+ * @description
+ * Wraps an `IntersectionObserver`, e.g. for a sentinel element at the end of a list
+ * that triggers loading the next page. Clipping by scrollable ancestors is taken into
+ * account, so it also works at the end of a horizontally scrolling row.
+ *
+ * @example
+ * <div class="sentinel" (appInView)="loadMore()"></div>
+ */
+@Directive({
+  selector: '[appInView]',
+})
+export class InViewDirective implements OnInit, OnDestroy {
+  /**
+   * How far (in CSS margin syntax) outside the viewport the element counts as visible,
+   * so loading starts shortly before the user reaches it.
+   * @Input
+   * @default '200px'
+   */
+  @Input() inViewMargin = '200px';
+
+  /**
+   * Fires each time the element enters the (extended) viewport.
+   * @Output
+   */
+  @Output() appInView = new EventEmitter<void>();
+
+  /**
+   * The observer watching the element.
+   * @private
+   */
+  private observer: IntersectionObserver | null = null;
+
+  /**
+   * Constructs the InViewDirective.
+   * @param {ElementRef<HTMLElement>} element The element to observe.
+   */
+  constructor(private element: ElementRef<HTMLElement>) {}
+
+  /**
+   * Angular lifecycle hook. Starts observing the element.
+   */
+  ngOnInit(): void {
+    this.observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          this.appInView.emit();
+        }
+      },
+      { rootMargin: this.inViewMargin }
+    );
+    this.observer.observe(this.element.nativeElement);
+  }
+
+  /**
+   * Angular lifecycle hook. Stops observing the element.
+   */
+  ngOnDestroy(): void {
+    this.observer?.disconnect();
+  }
+}
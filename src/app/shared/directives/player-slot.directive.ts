@@ -0,0 +1,43 @@
+import { Directive, ElementRef, OnDestroy, OnInit } from '@angular/core';
+import { PlayerDockService } from '../services/player-dock.service';
+
+/**
+ * @Directive
+ * Marks the place of a page where the main player is shown.
+ *
+ * @description
+ * Registers its element with the `PlayerDockService`, which moves the application-wide
+ * player into it. When the element is destroyed, e.g. because the user navigates to
+ * another page, the player continues as a mini-player.
+ *
+ * @example
+ * <section class="main-video" appPlayerSlot></section>
+ */
+@Directive({
+  selector: '[appPlayerSlot]',
+})
+export class PlayerSlotDirective implements OnInit, OnDestroy {
+  /**
+   * Constructs the PlayerSlotDirective.
+   * @param {ElementRef<HTMLElement>} element The element the player is moved into.
+   * @param {PlayerDockService} playerDock The service positioning the player.
+   */
+  constructor(
+    private element: ElementRef<HTMLElement>,
+    private playerDock: PlayerDockService
+  ) {}
+
+  /**
+   * Angular lifecycle hook. Moves the player into the element.
+   */
+  ngOnInit(): void {
+    this.playerDock.attachToPage(this.element.nativeElement);
+  }
+
+  /**
+   * Angular lifecycle hook. Releases the player.
+   */
+  ngOnDestroy(): void {
+    this.playerDock.detachFromPage(this.element.nativeElement);
+  }
+}
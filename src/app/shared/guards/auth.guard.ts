@@ -1,8 +1,9 @@
 import { inject } from '@angular/core';
-import { Router, UrlTree } from '@angular/router';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
 import { Observable, of } from 'rxjs';
-import { map, tap } from 'rxjs/operators';
+import { map } from 'rxjs/operators';
 import { AuthService } from '../services/auth.service';
+import { RETURN_URL_PARAM } from '../utils/return-url.utils';
 
 /**
  * @description
@@ -15,16 +16,22 @@ import { AuthService } from '../services/auth.service';
  *     it immediately grants access without making a network request. This is a performance optimization.
  *
  * 2.  **Asynchronous Validation:** If the user is not locally authenticated, it proceeds to call
- *     `authService.validateSession()`. This makes an asynchronous request to the backend to verify
- *     if a valid session (e.g., an HTTP-Only cookie) exists.
+ *     `authService.validateSession()`, which verifies with the backend if a valid session
+ *     (e.g., an HTTP-Only cookie) exists. The result of the check made on app start is reused.
  *
- * The `tap` operator is used for the side effect of redirecting the user to the login page if the
- * session validation fails. The `map` operator then returns the final boolean result to the Angular router.
+ * If the session is invalid, the guard redirects to the login page. The requested URL is passed
+ * along as the `returnUrl` query parameter, so the user gets back to it (e.g. a shared link to
+ * a video) after logging in.
  *
- * @returns {Observable<boolean>} An `Observable<boolean>` that resolves to `true` if the user is
- * authenticated and access should be granted, or `false` if access is denied.
+ * @param {ActivatedRouteSnapshot} route The route being activated.
+ * @param {RouterStateSnapshot} state The router state after the navigation, providing the requested URL.
+ * @returns {Observable<boolean | UrlTree>} An `Observable` that resolves to `true` if the user is
+ * authenticated and access should be granted, or to the `UrlTree` of the login page otherwise.
  */
-export const AuthGuard = (): Observable<boolean> => {
+export const AuthGuard = (
+  route: ActivatedRouteSnapshot,
+  state: RouterStateSnapshot
+): Observable<boolean | UrlTree> => {
   const authService = inject(AuthService);
   const router = inject(Router);
 
@@ -35,19 +42,11 @@ export const AuthGuard = (): Observable<boolean> => {
 
   // If not locally authenticated, validate the session with the backend.
   return authService.validateSession().pipe(
-    // Use `tap` for the side effect of navigating away on failure.
-    tap(isSessionValid => {
-      if (!isSessionValid) {
-        router.navigate(['/auth/login']);
-      }
-    }),
-    // Use `map` to return the final boolean value to the router.
-    map(isSessionValid => {
-      if (isSessionValid) {
-        return true;
-      } else {
-        return false;
-      }
-    })
+    map(isSessionValid =>
+      isSessionValid ||
+      router.createUrlTree(['/auth/login'], {
+        queryParams: { [RETURN_URL_PARAM]: state.url },
+      })
+    )
   );
-};
\ No newline at end of file
+};
@@ -4,16 +4,25 @@ import { Router } from '@angular/router';
 import { Observable, throwError } from 'rxjs';
 import { catchError, switchMap } from 'rxjs/operators';
 import { AuthService } from '../services/auth.service';
+import { SKIP_AUTH_REFRESH, SKIP_LOGIN_REDIRECT } from './http-context.tokens';
+import { getSafeReturnUrl, RETURN_URL_PARAM } from '../utils/return-url.utils';
 
 /**
  * A functional HTTP Interceptor that handles authentication for outgoing requests.
  *
  * @description
- * This interceptor performs two main tasks:
+ * This interceptor performs three main tasks:
  * 1.  It automatically includes credentials (like HTTP-Only cookies) in every HTTP request
- *     to ensure the user remains authenticated with the backend.
- * 2.  It catches `401 Unauthorized` errors, which typically indicate an expired or invalid session.
- *     Upon catching such an error, it logs the user out and redirects them to the login page.
+ *     and attaches the JWT access token as a `Bearer` header if one is stored.
+ * 2.  It catches `401 Unauthorized` errors, which typically indicate an expired access token.
+ *     It then refreshes the token once via `AuthService.refreshToken()` and replays the request.
+ * 3.  While a refresh is in flight, new requests are held back until it finishes, so they are
+ *     sent with the fresh token. Only if the refresh itself fails is the user logged out and
+ *     redirected to the login page.
+ *
+ * Requests flagged with the `SKIP_AUTH_REFRESH` context token (login and refresh) are passed
+ * through without refresh handling, to avoid refresh loops. Requests flagged with
+ * `SKIP_LOGIN_REDIRECT` (the session check) are refreshed, but fail without a redirect.
  *
  * @param {HttpRequest<unknown>} req The outgoing HTTP request.
  * @param {HttpHandlerFn} next The next interceptor in the chain or the backend handler.
@@ -23,16 +32,20 @@ export const authInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, ne
   const authService = inject(AuthService);
   const router = inject(Router);
 
-  // Clone the request to include credentials for session-based authentication.
-  const authRequest = req.clone({
-    withCredentials: true
-  });
+  if (req.context.get(SKIP_AUTH_REFRESH)) {
+    return next(req.clone({ withCredentials: true }));
+  }
+
+  // Queue the request behind a refresh that is already in flight.
+  if (authService.isRefreshing()) {
+    return refreshAndRetry(req, next, authService, router);
+  }
 
-  return next(authRequest).pipe(
+  return next(authorize(req, authService)).pipe(
     catchError(error => {
-      // If a 401 Unauthorized error occurs, handle it.
+      // If a 401 Unauthorized error occurs, refresh the token and replay the request.
       if (error instanceof HttpErrorResponse && error.status === 401) {
-        return handle401Error(authService, router);
+        return refreshAndRetry(req, next, authService, router);
       }
       // For all other errors, pass them through.
       return throwError(() => error);
@@ -41,17 +54,62 @@ export const authInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, ne
 };
 
 /**
- * Handles the 401 Unauthorized error by logging the user out and redirecting to the login page.
+ * Clones the request to include credentials and, if available, the JWT access token.
+ *
+ * @private
+ * @param {HttpRequest<unknown>} req The original request.
+ * @param {AuthService} authService The authentication service instance.
+ * @returns {HttpRequest<unknown>} The authorized request.
+ */
+function authorize(req: HttpRequest<unknown>, authService: AuthService): HttpRequest<unknown> {
+  const accessToken = authService.getAccessToken();
+
+  return req.clone({
+    withCredentials: true,
+    setHeaders: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+  });
+}
+
+/**
+ * Waits for the (shared) token refresh and replays the request with the fresh token.
+ * If the refresh fails, `AuthService` has already logged the user out, so the user is
+ * redirected to the login page.
  *
  * @private
+ * @param {HttpRequest<unknown>} req The request to replay.
+ * @param {HttpHandlerFn} next The next handler in the chain.
  * @param {AuthService} authService The authentication service instance.
  * @param {Router} router The router instance for navigation.
- * @returns {Observable<HttpEvent<unknown>>} An observable that throws an error to stop the request chain.
+ * @returns {Observable<HttpEvent<unknown>>} The event stream of the replayed request.
+ */
+function refreshAndRetry(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  authService: AuthService,
+  router: Router
+): Observable<HttpEvent<unknown>> {
+  return authService.refreshToken().pipe(
+    catchError(() => handleRefreshFailure(req, router)),
+    switchMap(() => next(authorize(req, authService)))
+  );
+}
+
+/**
+ * Handles a failed token refresh by redirecting to the login page, which returns
+ * to the current page after logging in again. Requests flagged with `SKIP_LOGIN_REDIRECT`
+ * only fail.
+ *
+ * @private
+ * @param {HttpRequest<unknown>} req The request whose refresh failed.
+ * @param {Router} router The router instance for navigation.
+ * @returns {Observable<never>} An observable that throws an error to stop the request chain.
  */
-function handle401Error(authService: AuthService, router: Router): Observable<HttpEvent<unknown>> {
-  // For session-based auth, there's no token to refresh, so we perform a direct logout.
-  authService.logout();
-  router.navigate(['/auth/login']);
+function handleRefreshFailure(req: HttpRequest<unknown>, router: Router): Observable<never> {
+  if (!req.context.get(SKIP_LOGIN_REDIRECT)) {
+    router.navigate(['/auth/login'], {
+      queryParams: { [RETURN_URL_PARAM]: getSafeReturnUrl(router.url) },
+    });
+  }
 
   // Throw a new error to inform the caller that the request failed.
   return throwError(() => new Error('Session expired. Please login again.'));
@@ -0,0 +1,131 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { of } from 'rxjs';
+import { DEFAULT_APP_CONFIG, provideAppConfig } from '../config/app-config';
+import { CsrfService } from '../services/csrf.service';
+
+import { csrfInterceptor } from './csrf.interceptor';
+
+describe('csrfInterceptor', () => {
+  const apiBaseUrl = 'https://api.videoflix.test/api/';
+  const forbidden = { status: 403, statusText: 'Forbidden' };
+
+  let http: HttpClient;
+  let httpTesting: HttpTestingController;
+  let csrfService: jasmine.SpyObj<CsrfService>;
+
+  beforeEach(() => {
+    csrfService = jasmine.createSpyObj<CsrfService>('CsrfService', ['getToken', 'fetchToken']);
+    csrfService.getToken.and.returnValue(of('old-token'));
+    csrfService.fetchToken.and.returnValue(of('new-token'));
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([csrfInterceptor])),
+        provideHttpClientTesting(),
+        provideAppConfig({ ...DEFAULT_APP_CONFIG, apiBaseUrl }),
+        { provide: CsrfService, useValue: csrfService },
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpTesting.verify();
+  });
+
+  it('should not add the token to safe methods', () => {
+    http.get(`${apiBaseUrl}video/`).subscribe();
+
+    const req = httpTesting.expectOne(`${apiBaseUrl}video/`);
+    expect(req.request.headers.has('X-CSRFToken')).toBeFalse();
+    expect(csrfService.getToken).not.toHaveBeenCalled();
+    req.flush([]);
+  });
+
+  it('should not add the token to requests to other origins', () => {
+    http.post('https://other.example/api/login/', {}).subscribe();
+
+    const req = httpTesting.expectOne('https://other.example/api/login/');
+    expect(req.request.headers.has('X-CSRFToken')).toBeFalse();
+    expect(csrfService.getToken).not.toHaveBeenCalled();
+    req.flush({});
+  });
+
+  it('should add the token to unsafe requests to the API', () => {
+    http.post(`${apiBaseUrl}logout/`, {}).subscribe();
+
+    const req = httpTesting.expectOne(`${apiBaseUrl}logout/`);
+    expect(req.request.headers.get('X-CSRFToken')).toBe('old-token');
+    req.flush({});
+  });
+
+  it('should fetch a new token and retry once after a CSRF failure', () => {
+    let response: unknown;
+    http.post(`${apiBaseUrl}logout/`, {}).subscribe((body) => (response = body));
+
+    httpTesting
+      .expectOne(`${apiBaseUrl}logout/`)
+      .flush({ detail: 'CSRF Failed: CSRF token missing.' }, forbidden);
+
+    const retry = httpTesting.expectOne(`${apiBaseUrl}logout/`);
+    expect(csrfService.fetchToken).toHaveBeenCalledTimes(1);
+    expect(retry.request.headers.get('X-CSRFToken')).toBe('new-token');
+    retry.flush({ ok: true });
+
+    expect(response).toEqual({ ok: true });
+  });
+
+  it('should retry once after the HTML page of a CSRF failure', () => {
+    let response: unknown;
+    http.post(`${apiBaseUrl}logout/`, {}).subscribe((body) => (response = body));
+
+    // Django's CsrfViewMiddleware responds with HTML, which HttpClient fails to parse as JSON.
+    httpTesting.expectOne(`${apiBaseUrl}logout/`).flush(
+      {
+        error: new SyntaxError('Unexpected token < in JSON'),
+        text: '<h1>Forbidden (403)</h1><p>CSRF verification failed. Request aborted.</p>',
+      },
+      forbidden
+    );
+
+    const retry = httpTesting.expectOne(`${apiBaseUrl}logout/`);
+    expect(csrfService.fetchToken).toHaveBeenCalledTimes(1);
+    expect(retry.request.headers.get('X-CSRFToken')).toBe('new-token');
+    retry.flush({ ok: true });
+
+    expect(response).toEqual({ ok: true });
+  });
+
+  it('should pass on a second CSRF failure without retrying again', () => {
+    let error: HttpErrorResponse | undefined;
+    http.post(`${apiBaseUrl}logout/`, {}).subscribe({ error: (e) => (error = e) });
+
+    httpTesting
+      .expectOne(`${apiBaseUrl}logout/`)
+      .flush({ detail: 'CSRF Failed: CSRF token missing.' }, forbidden);
+    httpTesting
+      .expectOne(`${apiBaseUrl}logout/`)
+      .flush({ detail: 'CSRF Failed: CSRF token incorrect.' }, forbidden);
+
+    httpTesting.expectNone(`${apiBaseUrl}logout/`);
+    expect(csrfService.fetchToken).toHaveBeenCalledTimes(1);
+    expect(error?.status).toBe(403);
+  });
+
+  it('should not retry a 403 that is not a CSRF failure', () => {
+    let error: HttpErrorResponse | undefined;
+    http.delete(`${apiBaseUrl}video/1/`).subscribe({ error: (e) => (error = e) });
+
+    httpTesting
+      .expectOne(`${apiBaseUrl}video/1/`)
+      .flush({ detail: 'You do not have permission to perform this action.' }, forbidden);
+
+    httpTesting.expectNone(`${apiBaseUrl}video/1/`);
+    expect(csrfService.fetchToken).not.toHaveBeenCalled();
+    expect(error?.status).toBe(403);
+  });
+});
@@ -0,0 +1,92 @@
+import { HttpInterceptorFn, HttpErrorResponse, HttpRequest, HttpEvent, HttpHandlerFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Observable, throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { APP_CONFIG } from '../config/app-config';
+import { CsrfService } from '../services/csrf.service';
+
+/**
+ * The methods Django's CSRF protection does not apply to.
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE'];
+
+/**
+ * A functional HTTP Interceptor that protects unsafe requests against CSRF.
+ *
+ * @description
+ * For `POST`, `PUT`, `PATCH` and `DELETE` requests to the API's origin, it attaches the
+ * CSRF token as the `X-CSRFToken` header Django's CSRF middleware expects. The token is taken
+ * from `CsrfService`, which fetches the CSRF cookie before the first request that needs it.
+ * Requests to other origins never receive the token.
+ *
+ * If the backend rejects a request with a `403 Forbidden` CSRF failure (e.g. because the
+ * token was rotated meanwhile), a new token is fetched and the request is retried once.
+ *
+ * @param {HttpRequest<unknown>} req The outgoing HTTP request.
+ * @param {HttpHandlerFn} next The next interceptor in the chain or the backend handler.
+ * @returns {Observable<HttpEvent<unknown>>} An observable of the HTTP event stream.
+ */
+export const csrfInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
+  const config = inject(APP_CONFIG);
+
+  if (SAFE_METHODS.includes(req.method) || !isApiOrigin(req.url, config.apiBaseUrl)) {
+    return next(req);
+  }
+
+  const csrfService = inject(CsrfService);
+  return csrfService.getToken().pipe(
+    switchMap(token => next(withCsrfToken(req, token))),
+    catchError(error => {
+      if (!isCsrfFailure(error)) {
+        return throwError(() => error);
+      }
+      // Retry once with a fresh token; a second failure is passed on.
+      return csrfService.fetchToken().pipe(
+        switchMap(token => next(withCsrfToken(req, token)))
+      );
+    })
+  );
+};
+
+/**
+ * Checks whether a URL points to the origin of the API.
+ *
+ * @private
+ * @param {string} url The request URL, absolute or relative to the document.
+ * @param {string} apiBaseUrl The configured API base URL.
+ * @returns {boolean} `true` if the URL has the same origin as the API.
+ */
+function isApiOrigin(url: string, apiBaseUrl: string): boolean {
+  const apiUrl = new URL(apiBaseUrl, document.baseURI);
+  return new URL(url, apiUrl).origin === apiUrl.origin;
+}
+
+/**
+ * Clones the request with the CSRF token header, if a token is available.
+ *
+ * @private
+ * @param {HttpRequest<unknown>} req The original request.
+ * @param {string | null} token The CSRF token.
+ * @returns {HttpRequest<unknown>} The request to send.
+ */
+function withCsrfToken(req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> {
+  return token ? req.clone({ setHeaders: { 'X-CSRFToken': token } }) : req;
+}
+
+/**
+ * Checks whether an error is Django's rejection of a missing or invalid CSRF token,
+ * as opposed to a `403 Forbidden` for lacking permissions. Django REST framework reports it
+ * as a JSON `detail`, while `CsrfViewMiddleware` responds with an HTML page, which
+ * `HttpClient` delivers as a failed JSON parse holding the page as `text`.
+ *
+ * @private
+ * @param {unknown} error The error of the request.
+ * @returns {boolean} `true` for a CSRF failure.
+ */
+function isCsrfFailure(error: unknown): boolean {
+  if (!(error instanceof HttpErrorResponse) || error.status !== 403) {
+    return false;
+  }
+  const message = typeof error.error === 'string' ? error.error : error.error?.detail ?? error.error?.text;
+  return typeof message === 'string' && /CSRF/i.test(message);
+}
@@ -0,0 +1,15 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Marks a request whose `401 Unauthorized` response must not trigger a token refresh,
+ * e.g. the login and token refresh requests themselves.
+ * Set via `new HttpContext().set(SKIP_AUTH_REFRESH, true)`.
+ */
+export const SKIP_AUTH_REFRESH = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Marks a request whose failed token refresh must not redirect to the login page,
+ * e.g. the session check on startup, which also runs for guests on public pages.
+ * Set via `new HttpContext().set(SKIP_LOGIN_REDIRECT, true)`.
+ */
+export const SKIP_LOGIN_REDIRECT = new HttpContextToken<boolean>(() => false);
@@ -0,0 +1,29 @@
+import { HttpInterceptorFn, HttpRequest, HttpEvent, HttpHandlerFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { APP_CONFIG } from '../config/app-config';
+import { MockBackend } from '../mock/mock-backend';
+
+/**
+ * A functional HTTP Interceptor that serves API requests from the in-memory `MockBackend`.
+ *
+ * @description
+ * The interceptor is opt-in: it only answers requests while `mockBackend.enabled` is set in
+ * the runtime configuration, and only requests targeting the configured API base URL.
+ * Everything else is passed on unchanged. It is registered after `authInterceptor`, so the
+ * credentials, token refresh and request queueing logic run against the mock backend as well.
+ *
+ * @param {HttpRequest<unknown>} req The outgoing HTTP request.
+ * @param {HttpHandlerFn} next The next interceptor in the chain or the backend handler.
+ * @returns {Observable<HttpEvent<unknown>>} An observable of the HTTP event stream.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
+  const config = inject(APP_CONFIG);
+
+  if (!config.mockBackend.enabled) {
+    return next(req);
+  }
+
+  const mockBackend = inject(MockBackend);
+  return mockBackend.handles(req) ? mockBackend.handle(req) : next(req);
+};
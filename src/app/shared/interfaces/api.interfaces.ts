@@ -1,6 +1,7 @@
 /**
  * API Response and Data Interfaces
- * Central place for all API-related TypeScript interfaces
+ * Central place for all API-related TypeScript interfaces.
+ * The matching runtime schemas live in `shared/api/api.schemas.ts`.
  */
 
 /**
@@ -36,17 +37,18 @@ export interface LoginData {
 export interface RegisterData {
   email: string;
   password: string;
-  first_name?: string;
-  last_name?: string;
+  confirmed_password: string;
 }
 
 export interface ForgotPasswordData {
   email: string;
 }
 
+/**
+ * Body of a password reset confirmation. The `uid` and `token` from the
+ * reset email are part of the URL path (`password_confirm/<uid>/<token>/`).
+ */
 export interface ResetPasswordData {
-  uid: string;
-  token: string;
   new_password: string;
   confirm_password: string;
 }
@@ -54,18 +56,45 @@ export interface ResetPasswordData {
 /**
  * Authentication response interfaces
  */
-export interface LoginResponse {
-  access: string;
-  refresh: string;
-  user: User;
+
+/**
+ * A plain confirmation returned by register, activate and password endpoints.
+ */
+export interface MessageResponse {
+  message?: string;
+  detail?: string;
+}
+
+/**
+ * Defines the response of the `csrf/` endpoint, which sets the CSRF cookie. The token is
+ * also read from the body, as the cookie of an API on another origin cannot be read.
+ */
+export interface CsrfTokenResponse {
+  detail?: string;
+  csrfToken?: string;
+}
+
+/**
+ * The login response. The tokens are only part of the body if the backend
+ * does not keep them in HTTP-only cookies.
+ */
+export interface LoginResponse extends MessageResponse {
+  access?: string;
+  refresh?: string;
+  user?: User;
 }
 
-export interface TokenRefreshResponse {
-  access: string;
+/**
+ * The token refresh response. `access` is omitted if the backend refreshes
+ * the HTTP-only cookie instead; `refresh` is only sent when tokens rotate.
+ */
+export interface TokenRefreshResponse extends MessageResponse {
+  access?: string;
+  refresh?: string;
 }
 
 /**
- * Video-related interfaces (für später)
+ * Video-related interfaces
  */
 export interface Video {
   id: number;
@@ -75,6 +104,66 @@ export interface Video {
   thumbnail_url?: string;
   category?: string;
   created_at?: string;
+  /** A WebVTT track whose cues reference preview images, e.g. `sprite.jpg#xywh=0,0,160,90`. */
+  thumbnails_vtt?: string;
+  /** A sprite sheet of preview frames, used if the video has no WebVTT thumbnail track. */
+  thumbnail_sprite?: ThumbnailSprite;
+  /** The subtitles of the video, one entry per language. */
+  subtitles?: SubtitleTrack[];
+  /** The series the video is an episode of; unset for standalone videos. */
+  series_id?: number;
+  season?: number;
+  /** The episode number within the season. */
+  episode?: number;
+  /** The start of the intro in seconds; defaults to 0 if only `intro_end` is set. */
+  intro_start?: number;
+  /** The end of the intro in seconds, where "Intro überspringen" jumps to. */
+  intro_end?: number;
+  /** The start of the end credits in seconds, where the next video is offered. */
+  credits_start?: number;
+  /** The audio languages of the video; empty if the video has only its built-in audio. */
+  audio_tracks?: AudioTrack[];
+}
+
+/**
+ * A sprite sheet of evenly spaced preview frames, laid out row by row.
+ */
+export interface ThumbnailSprite {
+  url: string;
+  /** The time in seconds between two frames. */
+  interval: number;
+  columns: number;
+  /** The width of a single frame in pixels. */
+  width: number;
+  /** The height of a single frame in pixels. */
+  height: number;
+}
+
+/**
+ * The subtitles of a video in one language. They are provided either as a WebVTT file
+ * loaded next to the stream (`url`), or as an HLS subtitle playlist (`playlist`) that is
+ * added to the master playlist as a subtitle rendition.
+ */
+export interface SubtitleTrack {
+  /** The BCP 47 language code, e.g. 'de' or 'en'. */
+  language: string;
+  /** The name shown in the subtitle menu, e.g. 'Deutsch'. */
+  label: string;
+  url?: string;
+  playlist?: string;
+}
+
+/**
+ * An audio language of a video. The original audio is part of the video renditions and has
+ * no `playlist`; dubbed audio is provided as a separate HLS audio playlist. All of them are
+ * added to the master playlist as an audio group.
+ */
+export interface AudioTrack {
+  /** The BCP 47 language code, e.g. 'de' or 'en'. */
+  language: string;
+  /** The name shown in the audio menu, e.g. 'Deutsch'. */
+  label: string;
+  playlist?: string;
 }
 
 export interface VideoListResponse {
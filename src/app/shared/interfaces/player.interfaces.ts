@@ -0,0 +1,130 @@
+/**
+ * Player Interfaces
+ * Central place for all TypeScript interfaces used by the video player
+ */
+import { ThumbnailSprite } from './api.interfaces';
+
+/**
+ * Describes a single HLS rendition (quality level) that the backend
+ * provides for every video, e.g. `720p/index.m3u8`.
+ */
+export interface VideoRendition {
+  name: string;
+  width: number;
+  height: number;
+  bandwidth: number;
+}
+
+/**
+ * The saved playback position of a user for a single video.
+ * Times are in seconds, `updated_at` is an ISO date string.
+ */
+export interface PlaybackProgress {
+  video_id: number;
+  position: number;
+  duration: number;
+  updated_at: string;
+}
+
+/**
+ * A single preview image, or a region of a sprite sheet, shown above the seek bar.
+ */
+export interface ThumbnailFrame {
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A cue of a WebVTT thumbnail track: the frame to show from `start` until `end` (in seconds).
+ */
+export interface ThumbnailCue {
+  start: number;
+  end: number;
+  frame: ThumbnailFrame;
+}
+
+/**
+ * The preview frames of a video, either from a WebVTT track or from a sprite sheet.
+ */
+export type ThumbnailTrack =
+  | { kind: 'vtt'; cues: ThumbnailCue[] }
+  | { kind: 'sprite'; sprite: ThumbnailSprite };
+
+/**
+ * A selectable entry of a player settings menu (e.g. a quality level).
+ */
+export interface PlayerMenuOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * A subtitle track the player can show, either a side-loaded WebVTT file
+ * (`<track>` element) or a subtitle rendition parsed by hls.js.
+ * `index` is the position within the `<track>` elements or within `hls.subtitleTracks`.
+ */
+export interface SubtitleOption {
+  id: string;
+  language: string;
+  label: string;
+  source: 'sidecar' | 'hls';
+  index: number;
+}
+
+/**
+ * An audio track of the loaded video, as reported by hls.js.
+ * `index` is the position within `hls.audioTracks`.
+ */
+export interface AudioOption {
+  index: number;
+  language: string;
+  label: string;
+  /** Whether the master playlist marks this track as the default (the original audio). */
+  isDefault: boolean;
+}
+
+/**
+ * How subtitles are displayed, applied to the cues via `::cue` styles.
+ */
+export interface CaptionStyle {
+  /** The font size relative to the browser's default cue size (1 = 100 %). */
+  fontScale: number;
+  /** The text color as a CSS color. */
+  color: string;
+  /** The opacity (0 to 1) of the black box behind the text. */
+  backgroundOpacity: number;
+}
+
+/**
+ * The player settings remembered per user.
+ */
+export interface PlayerPreferences {
+  /** Whether subtitles are shown when the video has them. */
+  subtitlesEnabled: boolean;
+  /** The last chosen subtitle language, kept while subtitles are switched off. */
+  subtitleLanguage: string | null;
+  captionStyle: CaptionStyle;
+  /** The preferred audio language, or `null` to play each video's default audio. */
+  audioLanguage: string | null;
+  /** Whether the next video starts automatically after a countdown when a video ends. */
+  autoplayNext: boolean;
+  /** Whether intros are skipped without asking. */
+  skipIntros: boolean;
+  /** The playback rate every video starts with, 1 being normal speed. */
+  playbackRate: number;
+}
+
+/**
+ * Why a video could not be played, used to show the user a specific reason.
+ */
+export type PlayerErrorKind =
+  | 'offline'
+  | 'network'
+  | 'notFound'
+  | 'forbidden'
+  | 'media'
+  | 'unsupported'
+  | 'unknown';
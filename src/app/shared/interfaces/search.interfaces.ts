@@ -0,0 +1,19 @@
+/**
+ * Search Interfaces
+ * Central place for all TypeScript interfaces used by the video search
+ */
+
+/**
+ * The available orders of the search results.
+ * `relevance` ranks title matches above category and description matches.
+ */
+export type VideoSearchSort = 'relevance' | 'newest' | 'title';
+
+/**
+ * A search across the catalog, as encoded in the `videos/search` URL.
+ */
+export interface VideoSearchQuery {
+  q: string;
+  category: string | null;
+  sort: VideoSearchSort;
+}
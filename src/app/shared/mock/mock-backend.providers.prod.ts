@@ -0,0 +1,13 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { Provider } from '@angular/core';
+
+/**
+ * Replaces `mock-backend.providers.ts` in production builds: the mock backend is not
+ * included, so all requests go to the configured backend.
+ */
+export const MOCK_BACKEND_INTERCEPTORS: HttpInterceptorFn[] = [];
+
+/**
+ * Replaces `mock-backend.providers.ts` in production builds.
+ */
+export const MOCK_BACKEND_PROVIDERS: Provider[] = [];
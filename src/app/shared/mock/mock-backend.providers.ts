@@ -0,0 +1,26 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { Provider } from '@angular/core';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { mockBackendInterceptor } from '../interceptors/mock-backend.interceptor';
+import { HLS_URL_RESOLVER } from '../services/video.service';
+import { getMockHlsUrl } from './mock-fixtures';
+
+/**
+ * The interceptors of the mock backend, registered after the application's own interceptors.
+ * They only answer requests while `mockBackend.enabled` is set in the runtime configuration.
+ *
+ * Production builds replace this file with `mock-backend.providers.prod.ts` (see the
+ * `fileReplacements` in `angular.json`), so the mock backend and its fixtures are not shipped.
+ */
+export const MOCK_BACKEND_INTERCEPTORS: HttpInterceptorFn[] = [mockBackendInterceptor];
+
+/**
+ * The providers of the mock backend: while it is enabled, every video plays the bundled test stream.
+ */
+export const MOCK_BACKEND_PROVIDERS: Provider[] = [
+  {
+    provide: HLS_URL_RESOLVER,
+    useFactory: (config: AppConfig) => (config.mockBackend.enabled ? getMockHlsUrl : null),
+    deps: [APP_CONFIG],
+  },
+];
@@ -0,0 +1,458 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpParams, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, of, throwError, timer } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import {
+  ForgotPasswordData,
+  LoginData,
+  RegisterData,
+  ResetPasswordData,
+  User,
+  Video,
+  VideoListResponse,
+} from '../interfaces/api.interfaces';
+import { PlaybackProgress } from '../interfaces/player.interfaces';
+import { getCookie } from '../utils/cookie.utils';
+import { MOCK_FIXTURES, MockFixtures, MockUser } from './mock-fixtures';
+
+/**
+ * The status and body of a mock response.
+ */
+interface MockResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Maps an HTTP method and endpoint path pattern to a handler.
+ * The capture groups of the pattern are passed to the handler.
+ */
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handle: (req: HttpRequest<any>, params: string[]) => MockResult;
+}
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * An in-memory imitation of the Django backend, used by `mockBackendInterceptor`.
+ * It implements every endpoint the frontend calls on top of the fixtures from
+ * `MOCK_FIXTURES`, including a session that, like the session cookie, survives page reloads
+ * and is shared by all tabs (via localStorage), Django's CSRF check of unsafe requests,
+ * account activation and password reset flows, and playback progress.
+ * Responses are delayed by the configured latency, and errors can be injected
+ * per endpoint or at random.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MockBackend {
+  private readonly SESSION_KEY = 'videoflix_mock_session';
+  private readonly ACTIVATION_TOKEN = 'mock-activation-token';
+  private readonly RESET_TOKEN = 'mock-reset-token';
+  private readonly CSRF_COOKIE = 'csrftoken';
+  private readonly UNSAFE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+  // =================================================================
+  // In-Memory State
+  // =================================================================
+  private users: MockUser[];
+  private videos: Video[];
+  private progress = new Map<number, PlaybackProgress>();
+
+  /**
+   * The endpoints of the mock backend, relative to the API base URL.
+   * @private
+   */
+  private readonly routes: MockRoute[] = [
+    { method: 'POST', pattern: /^login\/$/, handle: (req) => this.login(req.body) },
+    { method: 'POST', pattern: /^logout\/$/, handle: () => this.logout() },
+    { method: 'POST', pattern: /^register\/$/, handle: (req) => this.register(req.body) },
+    { method: 'GET', pattern: /^activate\/([^/]+)\/([^/]+)\/$/, handle: (req, [uid, token]) => this.activate(uid, token) },
+    { method: 'POST', pattern: /^password_reset\/$/, handle: (req) => this.requestPasswordReset(req.body) },
+    { method: 'POST', pattern: /^password_confirm\/([^/]+)\/([^/]+)\/$/, handle: (req, [uid, token]) => this.confirmPassword(uid, token, req.body) },
+    { method: 'POST', pattern: /^token\/refresh\/$/, handle: () => this.refreshToken() },
+    { method: 'GET', pattern: /^csrf\/$/, handle: () => this.ensureCsrfCookie() },
+    { method: 'GET', pattern: /^user\/$/, handle: () => this.authorized((user) => this.toUser(user)) },
+    { method: 'GET', pattern: /^video\/$/, handle: (req) => this.authorized(() => this.listVideos(req.params)) },
+    { method: 'GET', pattern: /^video\/(\d+)\/$/, handle: (req, [videoId]) => this.findVideo(Number(videoId)) },
+    { method: 'GET', pattern: /^progress\/$/, handle: () => this.authorized(() => [...this.progress.values()]) },
+    { method: 'POST', pattern: /^progress\/$/, handle: (req) => this.authorized(() => this.saveProgress(req.body)) },
+    { method: 'DELETE', pattern: /^progress\/(\d+)\/$/, handle: (req, [videoId]) => this.authorized(() => this.deleteProgress(Number(videoId))) },
+  ];
+
+  /**
+   * Constructs the MockBackend.
+   * @param {AppConfig} config The runtime configuration with the mock backend settings.
+   * @param {MockFixtures} fixtures The users and videos to start with.
+   */
+  constructor(
+    @Inject(APP_CONFIG) private config: AppConfig,
+    @Inject(MOCK_FIXTURES) fixtures: MockFixtures
+  ) {
+    this.users = fixtures.users.map((user) => ({ ...user }));
+    this.videos = fixtures.videos.map((video) => ({ ...video }));
+  }
+
+  /**
+   * Checks whether a request targets the API and is therefore served by the mock backend.
+   * @param {HttpRequest<unknown>} req The outgoing request.
+   * @returns {boolean} `true` if the request URL starts with the API base URL.
+   */
+  handles(req: HttpRequest<unknown>): boolean {
+    return req.url.startsWith(this.config.apiBaseUrl);
+  }
+
+  /**
+   * Answers a request after the configured latency, applying error injection.
+   * @param {HttpRequest<any>} req The outgoing request.
+   * @returns {Observable<HttpEvent<unknown>>} The mock response, or an `HttpErrorResponse` error.
+   */
+  handle(req: HttpRequest<any>): Observable<HttpEvent<unknown>> {
+    const path = req.url.slice(this.config.apiBaseUrl.length).split('?')[0];
+    const result = this.injectError(path) ?? this.checkCsrf(req) ?? this.route(req, path);
+
+    return timer(this.config.mockBackend.latencyMs).pipe(
+      switchMap(() => {
+        if (result.status >= 400) {
+          return throwError(() => new HttpErrorResponse({ status: result.status, error: result.body, url: req.url }));
+        }
+        return of(new HttpResponse({ status: result.status, body: result.body, url: req.url }));
+      })
+    );
+  }
+
+  // =================================================================
+  // Routing and Error Injection
+  // =================================================================
+
+  /**
+   * Finds the matching endpoint and runs its handler.
+   * @private
+   * @param {HttpRequest<any>} req The outgoing request.
+   * @param {string} path The endpoint path relative to the API base URL.
+   * @returns {MockResult} The handler's result, or a 404 result.
+   */
+  private route(req: HttpRequest<any>, path: string): MockResult {
+    for (const route of this.routes) {
+      const match = route.method === req.method ? route.pattern.exec(path) : null;
+      if (match) {
+        return route.handle(req, match.slice(1).map(decodeURIComponent));
+      }
+    }
+    return { status: 404, body: { detail: 'Not found.' } };
+  }
+
+  /**
+   * Returns a failure for endpoints configured to fail, or at the configured random rate.
+   * @private
+   * @param {string} path The endpoint path relative to the API base URL.
+   * @returns {MockResult | null} The injected error, or `null` to answer normally.
+   */
+  private injectError(path: string): MockResult | null {
+    const { failEndpoints, errorRate } = this.config.mockBackend;
+    const failingPrefix = Object.keys(failEndpoints).find((prefix) => path.startsWith(prefix));
+
+    if (failingPrefix) {
+      return { status: failEndpoints[failingPrefix], body: { detail: 'Injected error.' } };
+    }
+    if (Math.random() < errorRate) {
+      return { status: 500, body: { detail: 'Injected random error.' } };
+    }
+    return null;
+  }
+
+  // =================================================================
+  // Authentication Endpoints
+  // =================================================================
+
+  /**
+   * Starts a session for an activated user with matching credentials.
+   * @private
+   * @param {LoginData} body The request body.
+   * @returns {MockResult} The login response, or a 400 result.
+   */
+  private login(body: LoginData): MockResult {
+    const user = this.findUser(body?.email);
+
+    if (!user || user.password !== body?.password || !user.is_active) {
+      return { status: 400, body: { detail: ['Please check your input and try again.'] } };
+    }
+    localStorage.setItem(this.SESSION_KEY, String(user.id));
+    // Like Django, rotate the CSRF token on login.
+    this.setCsrfCookie();
+    return { status: 200, body: { detail: 'Login successful', user: this.toUser(user) } };
+  }
+
+  /**
+   * Ends the session, like the real backend deleting the session cookies.
+   * @private
+   * @returns {MockResult} The logout response.
+   */
+  private logout(): MockResult {
+    localStorage.removeItem(this.SESSION_KEY);
+    return { status: 200, body: { detail: 'Logout successful' } };
+  }
+
+  /**
+   * Creates an inactive user and logs the activation link to the console, as no email is sent.
+   * @private
+   * @param {RegisterData} body The request body.
+   * @returns {MockResult} A 201 result with the new user, or a 400 result.
+   */
+  private register(body: RegisterData): MockResult {
+    if (!body?.email || !body?.password || body.password !== body.confirmed_password) {
+      return { status: 400, body: { detail: ['Please check your input and try again.'] } };
+    }
+    if (this.findUser(body.email)) {
+      return { status: 400, body: { email: ['A user with this email already exists.'] } };
+    }
+
+    const user: MockUser = {
+      id: Math.max(0, ...this.users.map((entry) => entry.id)) + 1,
+      email: body.email,
+      password: body.password,
+      is_active: false,
+      date_joined: new Date().toISOString(),
+    };
+    this.users.push(user);
+    console.info(`[MockBackend] Activation link: /auth/activate?uid=${user.id}&token=${this.ACTIVATION_TOKEN}`);
+
+    return { status: 201, body: { user: { id: user.id, email: user.email }, token: this.ACTIVATION_TOKEN } };
+  }
+
+  /**
+   * Activates the account of a user with a valid activation token.
+   * @private
+   * @param {string} uid The user ID from the activation link.
+   * @param {string} token The token from the activation link.
+   * @returns {MockResult} A 200 result, or a 400 result for an invalid link.
+   */
+  private activate(uid: string, token: string): MockResult {
+    const user = this.users.find((entry) => String(entry.id) === uid);
+
+    if (!user || token !== this.ACTIVATION_TOKEN) {
+      return { status: 400, body: { message: 'Activation failed.' } };
+    }
+    user.is_active = true;
+    return { status: 200, body: { message: 'Account successfully activated.' } };
+  }
+
+  /**
+   * Logs the password reset link to the console, as no email is sent.
+   * Like the real backend, the response does not reveal whether the email exists.
+   * @private
+   * @param {ForgotPasswordData} body The request body.
+   * @returns {MockResult} Always a 200 result.
+   */
+  private requestPasswordReset(body: ForgotPasswordData): MockResult {
+    const user = this.findUser(body?.email);
+    if (user) {
+      console.info(`[MockBackend] Password reset link: /auth/confirm-password?uid=${user.id}&token=${this.RESET_TOKEN}`);
+    }
+    return { status: 200, body: { detail: 'An email has been sent to reset your password.' } };
+  }
+
+  /**
+   * Sets a new password for a user with a valid reset token.
+   * @private
+   * @param {string} uid The user ID from the reset link.
+   * @param {string} token The token from the reset link.
+   * @param {ResetPasswordData} body The request body.
+   * @returns {MockResult} A 200 result, or a 400 result.
+   */
+  private confirmPassword(uid: string, token: string, body: ResetPasswordData): MockResult {
+    const user = this.users.find((entry) => String(entry.id) === uid);
+
+    if (!user || token !== this.RESET_TOKEN) {
+      return { status: 400, body: { detail: ['Invalid or expired reset link.'] } };
+    }
+    if (!body?.new_password || body.new_password !== body.confirm_password) {
+      return { status: 400, body: { detail: ['Passwords do not match.'] } };
+    }
+    user.password = body.new_password;
+    return { status: 200, body: { detail: 'Your Password has been successfully reset.' } };
+  }
+
+  /**
+   * Refreshes the session cookie, which only succeeds while a session exists.
+   * @private
+   * @returns {MockResult} A 200 result, or a 401 result without a session.
+   */
+  private refreshToken(): MockResult {
+    return this.authorized(() => ({ detail: 'Token refreshed' }));
+  }
+
+  // =================================================================
+  // CSRF Protection
+  // =================================================================
+
+  /**
+   * Sets the CSRF cookie unless it is already set, like Django's `ensure_csrf_cookie`.
+   * @private
+   * @returns {MockResult} The response with the token.
+   */
+  private ensureCsrfCookie(): MockResult {
+    const token = getCookie(this.CSRF_COOKIE) ?? this.setCsrfCookie();
+    return { status: 200, body: { detail: 'CSRF cookie set', csrfToken: token } };
+  }
+
+  /**
+   * Sets a new CSRF cookie.
+   * @private
+   * @returns {string} The new token.
+   */
+  private setCsrfCookie(): string {
+    const token = Math.random().toString(36).slice(2);
+    document.cookie = `${this.CSRF_COOKIE}=${token}; path=/; SameSite=Lax`;
+    return token;
+  }
+
+  /**
+   * Rejects unsafe requests whose `X-CSRFToken` header does not match the CSRF cookie.
+   * @private
+   * @param {HttpRequest<any>} req The outgoing request.
+   * @returns {MockResult | null} A 403 result, or `null` if the request passes the check.
+   */
+  private checkCsrf(req: HttpRequest<any>): MockResult | null {
+    if (!this.UNSAFE_METHODS.includes(req.method)) {
+      return null;
+    }
+    const token = getCookie(this.CSRF_COOKIE);
+    if (!token) {
+      return { status: 403, body: { detail: 'CSRF Failed: CSRF cookie not set.' } };
+    }
+    if (req.headers.get('X-CSRFToken') !== token) {
+      return { status: 403, body: { detail: 'CSRF Failed: CSRF token incorrect.' } };
+    }
+    return null;
+  }
+
+  // =================================================================
+  // Helpers
+  // =================================================================
+
+  /**
+   * Runs a handler for the logged-in user, or answers with 401 if there is no session.
+   * @private
+   * @param {(user: MockUser) => unknown} handler Creates the response body.
+   * @returns {MockResult} A 200 result with the body, or a 401 result.
+   */
+  private authorized(handler: (user: MockUser) => unknown): MockResult {
+    const userId = localStorage.getItem(this.SESSION_KEY);
+    const user = this.users.find((entry) => String(entry.id) === userId);
+
+    if (!user) {
+      return { status: 401, body: { detail: 'Authentication credentials were not provided.' } };
+    }
+    return { status: 200, body: handler(user) };
+  }
+
+  /**
+   * Lists the videos, applying the `search`, `category` and `ordering` filters of the real API.
+   * Like the real API with pagination enabled, a `page_size` parameter returns a single page.
+   * @private
+   * @param {HttpParams} params The query parameters of the request.
+   * @returns {Video[] | VideoListResponse} The matching videos, or a page of them.
+   */
+  private listVideos(params: HttpParams): Video[] | VideoListResponse {
+    const search = params.get('search')?.toLowerCase();
+    const category = params.get('category')?.toLowerCase();
+    const ordering = params.get('ordering');
+
+    const videos = this.videos.filter((video) =>
+      (!category || video.category?.toLowerCase() === category) &&
+      (!search || [video.title, video.description, video.category].some((field) => field?.toLowerCase().includes(search)))
+    );
+    if (ordering === 'title') {
+      videos.sort((a, b) => a.title.localeCompare(b.title));
+    } else if (ordering === '-created_at') {
+      videos.sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''));
+    }
+    return params.has('page_size') ? this.paginate(videos, params) : videos;
+  }
+
+  /**
+   * Returns one page of a video list, with `next` and `previous` links that keep the filters.
+   * @private
+   * @param {Video[]} videos The filtered videos.
+   * @param {HttpParams} params The query parameters with `page_size` and an optional `page`.
+   * @returns {VideoListResponse} The requested page.
+   */
+  private paginate(videos: Video[], params: HttpParams): VideoListResponse {
+    const { maxPageSize } = this.config.mockBackend;
+    const requested = Math.max(1, Number(params.get('page_size')) || 1);
+    const pageSize = maxPageSize > 0 ? Math.min(requested, maxPageSize) : requested;
+    const page = Math.max(1, Number(params.get('page')) || 1);
+    const link = (target: number) => `${this.config.apiBaseUrl}video/?${params.set('page', target)}`;
+
+    return {
+      count: videos.length,
+      results: videos.slice((page - 1) * pageSize, page * pageSize),
+      next: page * pageSize < videos.length ? link(page + 1) : undefined,
+      previous: page > 1 ? link(page - 1) : undefined,
+    };
+  }
+
+  /**
+   * Returns a single video for the logged-in user.
+   * @private
+   * @param {number} videoId The ID of the video.
+   * @returns {MockResult} A 200 result with the video, or a 401 or 404 result.
+   */
+  private findVideo(videoId: number): MockResult {
+    const result = this.authorized(() => this.videos.find((entry) => entry.id === videoId));
+
+    if (result.status === 200 && !result.body) {
+      return { status: 404, body: { detail: 'Not found.' } };
+    }
+    return result;
+  }
+
+  /**
+   * Stores the progress entry of a video.
+   * @private
+   * @param {PlaybackProgress} body The progress entry to store.
+   * @returns {PlaybackProgress} The stored entry.
+   */
+  private saveProgress(body: PlaybackProgress): PlaybackProgress {
+    this.progress.set(body.video_id, body);
+    return body;
+  }
+
+  /**
+   * Removes the progress entry of a video.
+   * @private
+   * @param {number} videoId The ID of the video.
+   * @returns {null} The empty response body.
+   */
+  private deleteProgress(videoId: number): null {
+    this.progress.delete(videoId);
+    return null;
+  }
+
+  /**
+   * Finds a user by email address, ignoring case.
+   * @private
+   * @param {unknown} email The email address from a request body.
+   * @returns {MockUser | undefined} The matching user, if any.
+   */
+  private findUser(email: unknown): MockUser | undefined {
+    if (typeof email !== 'string') return undefined;
+    return this.users.find((user) => user.email.toLowerCase() === email.toLowerCase());
+  }
+
+  /**
+   * Strips the password from a mock user.
+   * @private
+   * @param {MockUser} user The mock user.
+   * @returns {User} The user as the API returns it.
+   */
+  private toUser({ password, ...user }: MockUser): User {
+    return user;
+  }
+}
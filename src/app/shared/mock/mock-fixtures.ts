@@ -0,0 +1,192 @@
+import { InjectionToken } from '@angular/core';
+import { User, Video } from '../interfaces/api.interfaces';
+
+/**
+ * A user known to the mock backend, including the password it accepts.
+ */
+export interface MockUser extends User {
+  password: string;
+}
+
+/**
+ * The data the mock backend starts with.
+ */
+export interface MockFixtures {
+  users: MockUser[];
+  videos: Video[];
+}
+
+/**
+ * The base URL of the bundled HLS test stream. Every mock video plays this stream,
+ * which provides the same `480p`, `720p` and `1080p` renditions as the real backend.
+ */
+export const MOCK_HLS_BASE_URL = 'assets/mock/hls/';
+
+/**
+ * Builds the URL of a media playlist of the bundled test stream, which every mock video plays.
+ * Provided as the `HLS_URL_RESOLVER` while the mock backend is enabled.
+ *
+ * @param {number} videoId The ID of the video (ignored).
+ * @param {string} resolution The rendition, e.g. '720p'.
+ * @returns {string} The URL of the rendition's playlist.
+ */
+export function getMockHlsUrl(videoId: number, resolution: string): string {
+  return `${MOCK_HLS_BASE_URL}${resolution}/index.m3u8`;
+}
+
+/**
+ * The base URL of the preview frames of the test stream: a WebVTT thumbnail track
+ * (`thumbnails.vtt`) and the sprite sheet it references (`sprite.jpg`, 3x2 frames of 160x90).
+ */
+export const MOCK_THUMBNAILS_BASE_URL = 'assets/mock/thumbnails/';
+
+/**
+ * The base URL of the subtitles of the test stream: a WebVTT file per language
+ * (`de.vtt`, `en.vtt`) and an HLS subtitle playlist wrapping it (`de.m3u8`, `en.m3u8`).
+ */
+export const MOCK_SUBTITLES_BASE_URL = 'assets/mock/subtitles/';
+
+/**
+ * The base URL of the alternate audio of the test stream: an HLS audio playlist with a
+ * distinct tone (`dub/index.m3u8`), used for every dubbed language of the mock videos.
+ */
+export const MOCK_AUDIO_BASE_URL = 'assets/mock/audio/';
+
+/**
+ * Returns an ISO date string for a point in time a number of days ago.
+ * @param {number} days The number of days to go back.
+ * @returns {string} The ISO date string.
+ */
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * The default fixtures: one activated demo account and a small catalog
+ * spread over several categories, some of them recent enough to count as "latest".
+ * The videos cover every kind of seek bar preview: a WebVTT track, a sprite sheet, and none,
+ * and every kind of subtitles: side-loaded WebVTT files, HLS subtitle playlists, and none.
+ * The first two are dubbed: one in English, the other one (originally English) in German.
+ * 'Office Hours' is a series of three episodes, the first two with intro and credits markers.
+ */
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  users: [
+    {
+      id: 1,
+      email: 'demo@videoflix.de',
+      password: 'demo1234',
+      first_name: 'Demo',
+      last_name: 'User',
+      is_active: true,
+      date_joined: daysAgo(30),
+    },
+  ],
+  videos: [
+    {
+      id: 1,
+      title: 'Ocean Drift',
+      description: 'A calm journey along the coastline, from sunrise to sunset.',
+      thumbnail_url: '/assets/img/index_bg.jpg',
+      category: 'documentary',
+      created_at: daysAgo(1),
+      thumbnails_vtt: `${MOCK_THUMBNAILS_BASE_URL}thumbnails.vtt`,
+      intro_start: 1,
+      intro_end: 3,
+      subtitles: [
+        { language: 'de', label: 'Deutsch', url: `${MOCK_SUBTITLES_BASE_URL}de.vtt` },
+        { language: 'en', label: 'English', url: `${MOCK_SUBTITLES_BASE_URL}en.vtt` },
+      ],
+      audio_tracks: [
+        { language: 'de', label: 'Deutsch' },
+        { language: 'en', label: 'English', playlist: `${MOCK_AUDIO_BASE_URL}dub/index.m3u8` },
+      ],
+    },
+    {
+      id: 2,
+      title: 'Night Runner',
+      description: 'A courier races through the city to deliver one last package.',
+      thumbnail_url: '/assets/img/index_bg.jpg',
+      category: 'action',
+      created_at: daysAgo(2),
+      thumbnails_vtt: `${MOCK_THUMBNAILS_BASE_URL}thumbnails.vtt`,
+      subtitles: [
+        { language: 'de', label: 'Deutsch', playlist: `${MOCK_SUBTITLES_BASE_URL}de.m3u8` },
+        { language: 'en', label: 'English', playlist: `${MOCK_SUBTITLES_BASE_URL}en.m3u8` },
+      ],
+      audio_tracks: [
+        { language: 'en', label: 'English' },
+        { language: 'de', label: 'Deutsch', playlist: `${MOCK_AUDIO_BASE_URL}dub/index.m3u8` },
+      ],
+    },
+    {
+      id: 3,
+      title: 'The Long Way Home',
+      description: 'Two estranged brothers share a road trip across the country.',
+      thumbnail_url: '/assets/img/index_bg.jpg',
+      category: 'drama',
+      created_at: daysAgo(12),
+      thumbnail_sprite: {
+        url: `${MOCK_THUMBNAILS_BASE_URL}sprite.jpg`,
+        interval: 1,
+        columns: 3,
+        width: 160,
+        height: 90,
+      },
+      subtitles: [{ language: 'en', label: 'English', url: `${MOCK_SUBTITLES_BASE_URL}en.vtt` }],
+    },
+    {
+      id: 4,
+      title: 'Office Hours',
+      description: 'Nothing ever goes as planned in the smallest startup in town.',
+      thumbnail_url: '/assets/img/index_bg.jpg',
+      category: 'comedy',
+      created_at: daysAgo(20),
+      series_id: 1,
+      season: 1,
+      episode: 1,
+      intro_end: 2,
+      credits_start: 4.5,
+    },
+    {
+      id: 5,
+      title: 'Signal Lost',
+      description: 'A research station stops responding, and the rescue team is on its own.',
+      thumbnail_url: '/assets/img/index_bg.jpg',
+      category: 'scifi',
+      created_at: daysAgo(40),
+    },
+    {
+      id: 6,
+      title: 'Office Hours: The Pitch',
+      description: 'The team has five minutes to convince an investor, and the demo is not ready.',
+      thumbnail_url: '/assets/img/index_bg.jpg',
+      category: 'comedy',
+      created_at: daysAgo(19),
+      series_id: 1,
+      season: 1,
+      episode: 2,
+      intro_end: 2,
+      credits_start: 4.5,
+    },
+    {
+      id: 7,
+      title: 'Office Hours: Demo Day',
+      description: 'Everything that can break on stage does, and the audience loves it.',
+      thumbnail_url: '/assets/img/index_bg.jpg',
+      category: 'comedy',
+      created_at: daysAgo(18),
+      series_id: 1,
+      season: 1,
+      episode: 3,
+    },
+  ],
+};
+
+/**
+ * The injection token for the mock backend's fixtures. Provide a different value
+ * to start the mock backend with other users or videos (e.g. in a component spec).
+ */
+export const MOCK_FIXTURES = new InjectionToken<MockFixtures>('MOCK_FIXTURES', {
+  providedIn: 'root',
+  factory: () => DEFAULT_MOCK_FIXTURES,
+});
@@ -0,0 +1,44 @@
+import { EnvironmentProviders, Provider, makeEnvironmentProviders } from '@angular/core';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { APP_CONFIG, DEFAULT_APP_CONFIG, MockBackendConfig } from '../config/app-config';
+import { authInterceptor } from '../interceptors/auth.interceptor';
+import { csrfInterceptor } from '../interceptors/csrf.interceptor';
+import { mockBackendInterceptor } from '../interceptors/mock-backend.interceptor';
+import { HLS_URL_RESOLVER } from '../services/video.service';
+import { DEFAULT_MOCK_FIXTURES, MOCK_FIXTURES, MockFixtures, getMockHlsUrl } from './mock-fixtures';
+
+/**
+ * Provides an `HttpClient` that is served by the in-memory mock backend, so component
+ * specs can run without a server. Latency is disabled unless configured otherwise.
+ *
+ * @example
+ * TestBed.configureTestingModule({
+ *   imports: [Login],
+ *   providers: [provideRouter([]), provideMockBackend()],
+ * });
+ *
+ * @param {Partial<MockBackendConfig>} [settings] Overrides for latency and error injection.
+ * @param {MockFixtures} [fixtures] The users and videos the mock backend starts with.
+ * @returns {EnvironmentProviders} The providers for a test or application injector.
+ */
+export function provideMockBackend(
+  settings: Partial<MockBackendConfig> = {},
+  fixtures: MockFixtures = DEFAULT_MOCK_FIXTURES
+): EnvironmentProviders {
+  const providers: Provider[] = [
+    {
+      provide: APP_CONFIG,
+      useValue: {
+        ...DEFAULT_APP_CONFIG,
+        mockBackend: { ...DEFAULT_APP_CONFIG.mockBackend, latencyMs: 0, ...settings, enabled: true },
+      },
+    },
+    { provide: MOCK_FIXTURES, useValue: fixtures },
+    { provide: HLS_URL_RESOLVER, useValue: getMockHlsUrl },
+  ];
+
+  return makeEnvironmentProviders([
+    provideHttpClient(withInterceptors([csrfInterceptor, authInterceptor, mockBackendInterceptor])),
+    ...providers,
+  ]);
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { NotFound } from './not-found';
+
+describe('NotFound', () => {
+  let component: NotFound;
+  let fixture: ComponentFixture<NotFound>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [NotFound]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(NotFound);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,23 @@
+import { Component } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { Header } from '../../shared/header/header';
+import { Footer } from '../../shared/footer/footer';
+
+/**
+ * @Component
+ * A component to display the application's "page not found" page.
+ *
+ * @description
+ * Shown for any URL that does not match a route, and for deep links to videos
+ * that do not exist. It utilizes the shared Header and Footer components for
+ * a consistent application-wide layout.
+ */
+@Component({
+  selector: 'app-not-found',
+  imports: [RouterModule, Header, Footer],
+  templateUrl: './not-found.html',
+  styleUrl: './not-found.scss'
+})
+export class NotFound {
+
+}
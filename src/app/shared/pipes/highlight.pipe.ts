@@ -0,0 +1,49 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { escapeRegExp, getSearchTerms } from '../utils/search.utils';
+
+/**
+ * @Pipe
+ * Highlights the terms of a search query within a text.
+ *
+ * @description
+ * Returns the text as HTML, with every occurrence of a search term wrapped in a `<mark>`
+ * element. The text itself is HTML-escaped, so the result is safe to bind via `[innerHTML]`.
+ *
+ * @example
+ * <h3 [innerHTML]="video.title | highlight: query"></h3>
+ */
+@Pipe({
+  name: 'highlight',
+})
+export class HighlightPipe implements PipeTransform {
+  /**
+   * @param {string | null | undefined} text The text to display.
+   * @param {string | null | undefined} query The search query whose terms are highlighted.
+   * @returns {string} The escaped text with `<mark>` elements around the matches.
+   */
+  transform(text: string | null | undefined, query: string | null | undefined): string {
+    const terms = getSearchTerms(query);
+    if (!text) return '';
+    if (terms.length === 0) return this.escapeHtml(text);
+
+    const pattern = new RegExp(`(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'gi');
+    return text
+      .split(pattern)
+      .map((part, index) => (index % 2 === 1 ? `<mark>${this.escapeHtml(part)}</mark>` : this.escapeHtml(part)))
+      .join('');
+  }
+
+  /**
+   * Escapes the characters with a special meaning in HTML.
+   * @private
+   * @param {string} text The text to escape.
+   * @returns {string} The escaped text.
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
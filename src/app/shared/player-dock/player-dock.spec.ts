@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { provideMockBackend } from '../mock/provide-mock-backend';
+
+import { PlayerDock } from './player-dock';
+
+describe('PlayerDock', () => {
+  let component: PlayerDock;
+  let fixture: ComponentFixture<PlayerDock>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PlayerDock],
+      providers: [provideRouter([]), provideMockBackend()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PlayerDock);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
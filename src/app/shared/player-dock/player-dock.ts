@@ -0,0 +1,211 @@
+// =================================================================
+// Standard Angular and RxJS Imports
+// =================================================================
+import {
+  ChangeDetectorRef,
+  Component,
+  ElementRef,
+  OnDestroy,
+  OnInit,
+  ViewChild,
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+
+// =================================================================
+// Custom Application-Specific Imports
+// =================================================================
+import { Video } from '../interfaces/api.interfaces';
+import { VideoService } from '../services/video.service';
+import { PlayerDockService } from '../services/player-dock.service';
+import { VideoPlayer } from '../../pages/video-list/video-player/video-player';
+
+/**
+ * @Component
+ * Defines the metadata for the PlayerDock component.
+ *
+ * @description
+ * Hosts the application's main video player, outside of the routed pages, so playback
+ * survives navigation. On a page with a player slot (see `PlayerSlotDirective`), the
+ * player is moved into the slot. When the user leaves the page while the video is playing,
+ * the same `<video>` element and stream continue in a mini-player docked to the corner
+ * of the window, which can be expanded back to the video page or closed. A paused video
+ * is closed instead, and a video that was never shown on a page is not shown at all.
+ */
+@Component({
+  selector: 'app-player-dock',
+  standalone: true,
+  imports: [VideoPlayer],
+  templateUrl: './player-dock.html',
+  styleUrls: ['./player-dock.scss'],
+})
+export class PlayerDock implements OnInit, OnDestroy {
+  /**
+   * The element wrapping the player, which is moved between the page slot and the dock.
+   * @ViewChild
+   */
+  @ViewChild('dock', { static: true }) dock!: ElementRef<HTMLElement>;
+
+  /**
+   * The player, used to check whether the video is playing when the page is left.
+   * @ViewChild
+   */
+  @ViewChild(VideoPlayer) player?: VideoPlayer;
+
+  /**
+   * The video in the player, or `null` if there is none.
+   * @type {Video | null}
+   */
+  video: Video | null = null;
+
+  /**
+   * The position (in seconds) to start the video at, e.g. from a shared link.
+   * @type {number | null}
+   */
+  startTime: number | null = null;
+
+  /**
+   * The slot of the current page, or `null` if the player is docked as a mini-player.
+   * @private
+   */
+  private pageSlot: HTMLElement | null = null;
+
+  /**
+   * Whether the video continues in the mini-player, because it was playing when its page was left.
+   * @private
+   */
+  private keepsPlaying = false;
+
+  /**
+   * A collection of all active subscriptions to be cleaned up on component destruction.
+   * @private
+   */
+  private subscriptions = new Subscription();
+
+  /**
+   * Constructs the PlayerDock component.
+   * @param {ElementRef<HTMLElement>} host - The host element, holding the mini-player.
+   * @param {VideoService} videoService - Service providing the current video.
+   * @param {PlayerDockService} playerDock - Service providing the page slot and start time.
+   * @param {Router} router - Used to open the video page when the mini-player is expanded.
+   * @param {ChangeDetectorRef} cdr - Used to render changes of the page slot.
+   */
+  constructor(
+    private host: ElementRef<HTMLElement>,
+    private videoService: VideoService,
+    private playerDock: PlayerDockService,
+    private router: Router,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Whether the player is docked as a mini-player.
+   * @type {boolean}
+   */
+  get isMini(): boolean {
+    return this.pageSlot === null;
+  }
+
+  /**
+   * Whether the player is shown: within a page, or as a mini-player continuing playback.
+   * @type {boolean}
+   */
+  get isVisible(): boolean {
+    return !!this.video && (!this.isMini || this.keepsPlaying);
+  }
+
+  /**
+   * Angular lifecycle hook. Follows the current video, the start time and the page slot.
+   */
+  ngOnInit(): void {
+    this.subscriptions.add(
+      this.videoService.currentVideo$.subscribe((video) => {
+        this.video = video;
+        this.cdr.markForCheck();
+      })
+    );
+    this.subscriptions.add(
+      this.playerDock.startTime$.subscribe((startTime) => {
+        this.startTime = startTime;
+        this.cdr.markForCheck();
+      })
+    );
+    this.subscriptions.add(
+      this.playerDock.pageSlot$.subscribe((slot) => this.onPageSlotChange(slot))
+    );
+  }
+
+  /**
+   * Angular lifecycle hook. Cleans up all subscriptions.
+   */
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  /**
+   * Moves the player into a page's slot, or docks it as a mini-player when the page is left.
+   * A video that is not playing is closed instead of docked.
+   * @private
+   * @param {HTMLElement | null} slot - The slot of the current page, or `null`.
+   */
+  private onPageSlotChange(slot: HTMLElement | null): void {
+    const leftPage = this.pageSlot !== null && slot === null;
+    this.pageSlot = slot;
+    this.keepsPlaying = leftPage && this.isPlaying();
+
+    if (leftPage && !this.keepsPlaying) {
+      this.close();
+    }
+
+    const parent = slot ?? this.host.nativeElement;
+    if (this.dock.nativeElement.parentElement !== parent) {
+      parent.appendChild(this.dock.nativeElement);
+    }
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Checks whether the video is playing, in the player or in a picture-in-picture window.
+   * @private
+   * @returns {boolean} `true` if playback should continue in the mini-player.
+   */
+  private isPlaying(): boolean {
+    return !!this.player && (this.player.isPlaying || this.player.isPictureInPicture);
+  }
+
+  /**
+   * Opens the page of the video, which takes the player back from the mini-player.
+   */
+  expand(): void {
+    if (this.video) {
+      this.router.navigate(['/videos', this.video.id]);
+    }
+  }
+
+  /**
+   * Stops playback and removes the mini-player. The player saves the position when it
+   * is destroyed, so the video can be continued later.
+   */
+  close(): void {
+    if (document.pictureInPictureElement) {
+      document.exitPictureInPicture();
+    }
+    this.keepsPlaying = false;
+    this.playerDock.setStartTime(null);
+    this.videoService.clearCurrentVideo();
+  }
+
+  /**
+   * Plays another video, e.g. the next episode. On the video page, the page's URL is
+   * updated; the mini-player simply continues with it.
+   * @param {Video} video - The video to play.
+   */
+  onPlayVideo(video: Video): void {
+    if (!this.isMini) {
+      this.router.navigate(['/videos', video.id]);
+      return;
+    }
+    this.playerDock.setStartTime(null);
+    this.videoService.setCurrentVideo(video);
+  }
+}
@@ -0,0 +1,110 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { Schema, ApiSchemaError, validate } from '../api/schema';
+
+/**
+ * Optional settings for a single API request.
+ */
+export interface ApiRequestOptions {
+  /** Query parameters appended to the URL. */
+  params?: HttpParams | Record<string, string | number | boolean>;
+  /** Context tokens read by the HTTP interceptors (e.g. `SKIP_AUTH_REFRESH`). */
+  context?: HttpContext;
+}
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * The typed client for the Videoflix REST API. Every request is resolved against the
+ * configured `apiBaseUrl`, sent with credentials, and its response body is checked against
+ * a runtime schema. If the backend's response shape drifts from the frontend's interfaces,
+ * the request fails loudly with an `ApiSchemaError` instead of passing `undefined` values on.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ApiClient {
+  /**
+   * Constructs the ApiClient.
+   * @param {HttpClient} http The Angular service for making HTTP requests.
+   * @param {AppConfig} config The runtime configuration providing the API base URL.
+   */
+  constructor(
+    private http: HttpClient,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {}
+
+  /**
+   * Sends a GET request and validates the response.
+   * @param {string} path The endpoint path relative to the API base URL (e.g. 'video/').
+   * @param {Schema<T>} schema The schema the response body must match.
+   * @param {ApiRequestOptions} [options] Optional query parameters and context.
+   * @returns {Observable<T>} An observable of the validated response body.
+   */
+  get<T>(path: string, schema: Schema<T>, options: ApiRequestOptions = {}): Observable<T> {
+    return this.http
+      .get<unknown>(this.url(path), { ...options, withCredentials: true })
+      .pipe(map((body) => this.check(schema, body, 'GET', path)));
+  }
+
+  /**
+   * Sends a POST request and validates the response.
+   * @param {string} path The endpoint path relative to the API base URL.
+   * @param {B} body The request body.
+   * @param {Schema<T>} schema The schema the response body must match.
+   * @param {ApiRequestOptions} [options] Optional query parameters and context.
+   * @returns {Observable<T>} An observable of the validated response body.
+   */
+  post<T, B = unknown>(path: string, body: B, schema: Schema<T>, options: ApiRequestOptions = {}): Observable<T> {
+    return this.http
+      .post<unknown>(this.url(path), body, { ...options, withCredentials: true })
+      .pipe(map((response) => this.check(schema, response, 'POST', path)));
+  }
+
+  /**
+   * Sends a DELETE request and validates the response.
+   * @param {string} path The endpoint path relative to the API base URL.
+   * @param {Schema<T>} schema The schema the response body must match.
+   * @param {ApiRequestOptions} [options] Optional query parameters and context.
+   * @returns {Observable<T>} An observable of the validated response body.
+   */
+  delete<T>(path: string, schema: Schema<T>, options: ApiRequestOptions = {}): Observable<T> {
+    return this.http
+      .delete<unknown>(this.url(path), { ...options, withCredentials: true })
+      .pipe(map((body) => this.check(schema, body, 'DELETE', path)));
+  }
+
+  /**
+   * Constructs the full API URL for a given relative path.
+   * @param {string} path The relative path of the API endpoint.
+   * @returns {string} The complete URL.
+   */
+  url(path: string): string {
+    return this.config.apiBaseUrl + path;
+  }
+
+  /**
+   * Validates a response body and logs any mismatch before rethrowing it.
+   * @private
+   * @param {Schema<T>} schema The schema the body must match.
+   * @param {unknown} body The response body.
+   * @param {string} method The HTTP method, used in the error message.
+   * @param {string} path The endpoint path, used in the error message.
+   * @returns {T} The validated body.
+   */
+  private check<T>(schema: Schema<T>, body: unknown, method: string, path: string): T {
+    try {
+      return validate(schema, body, `${method} ${path}`);
+    } catch (error) {
+      if (error instanceof ApiSchemaError) {
+        console.error(error.message, body);
+      }
+      throw error;
+    }
+  }
+}
@@ -1,64 +1,29 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { BehaviorSubject, Observable, throwError, of } from 'rxjs';
-import { map, catchError, tap } from 'rxjs/operators';
-
-// =================================================================
-// Data Interfaces
-// =================================================================
-
-/**
- * Defines the data structure for a user registration request.
- */
-export interface RegisterData {
-  email: string;
-  password: string;
-  confirmed_password: string;
-}
-
-/**
- * Defines the data structure for a user login request.
- */
-export interface LoginData {
-  email: string;
-  password: string;
-}
-
-/**
- * Defines the data structure for a "forgot password" request.
- */
-export interface ForgotPasswordData {
-  email: string;
-}
-
-/**
- * Defines the data structure for a password reset confirmation.
- */
-export interface ResetPasswordData {
-  token: string;
-  password: string;
-}
-
-/**
- * A generic wrapper for standardized API responses from the backend.
- * @template T The type of the `data` payload, if any.
- */
-export interface ApiResponse<T = any> {
-  success: boolean;
-  data?: T;
-  message?: string;
-  errors?: string[];
-}
-
-/**
- * Defines the data structure for a user object.
- */
-export interface User {
-  id: number;
-  email: string;
-  first_name?: string;
-  last_name?: string;
-}
+import { HttpContext } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable, Subject, throwError, of } from 'rxjs';
+import { map, catchError, tap, finalize, shareReplay } from 'rxjs/operators';
+import {
+  ApiResponse,
+  User,
+  LoginData,
+  RegisterData,
+  ForgotPasswordData,
+  ResetPasswordData,
+  MessageResponse,
+  TokenRefreshResponse,
+  LoginResponse,
+} from '../interfaces/api.interfaces';
+import {
+  userSchema,
+  messageResponseSchema,
+  loginResponseSchema,
+  tokenRefreshResponseSchema,
+} from '../api/api.schemas';
+import { ApiSchemaError, unknown } from '../api/schema';
+import { SKIP_AUTH_REFRESH, SKIP_LOGIN_REDIRECT } from '../interceptors/http-context.tokens';
+import { ApiClient } from './api-client.service';
+import { getTokenExpiry } from '../utils/token.utils';
 
 // =================================================================
 // AuthService Class
@@ -72,6 +37,7 @@ export interface User {
  * Handles all authentication-related concerns, including user registration, login,
  * session validation, and state management. It communicates with the backend API
  * and maintains the application's authentication state via RxJS BehaviorSubjects.
+ * Logouts are announced to the other open tabs, which drop to the login page as well.
  */
 @Injectable({
   providedIn: 'root',
@@ -81,16 +47,31 @@ export class AuthService {
   // API Endpoint Configuration
   // =================================================================
 
-  // private readonly API_BASE_URL = 'http://127.0.0.1:8000/api/';
-  private readonly API_BASE_URL = 'http://localhost:8000/api/';
   private readonly VALIDATE_URL = 'user/';
   private readonly LOGIN_URL = 'login/';
+  private readonly LOGOUT_URL = 'logout/';
   private readonly REGISTER_URL = 'register/';
   private readonly FORGET_PASSWORD_URL = 'password_reset/';
   private readonly REFRESH_URL = 'token/refresh/';
   private readonly ACTIVATE_URL = 'activate/';
   private readonly CONFIRM_PASSWORD_URL = 'confirm_password/';
 
+  // =================================================================
+  // Token Storage Keys
+  // =================================================================
+
+  private readonly ACCESS_TOKEN_KEY = 'access_token';
+  private readonly REFRESH_TOKEN_KEY = 'refresh_token';
+
+  // =================================================================
+  // Multi-Tab Synchronization
+  // =================================================================
+
+  /** The `BroadcastChannel` announcing logouts to the other tabs. */
+  private readonly AUTH_CHANNEL = 'videoflix_auth';
+  /** The localStorage key announcing logouts in browsers without `BroadcastChannel`. */
+  private readonly LOGOUT_STORAGE_KEY = 'videoflix_logout';
+
   // =================================================================
   // State Management
   // =================================================================
@@ -115,11 +96,46 @@ export class AuthService {
    */
   public isAuthenticated$ = this.isAuthenticatedSubject.asObservable();
 
+  // Token refresh state
+  /**
+   * @private The shared token refresh request while one is in flight, otherwise `null`.
+   * Every caller that needs a fresh token subscribes to this same request.
+   */
+  private refreshInProgress$: Observable<TokenRefreshResponse> | null = null;
+
+  // Session check state
+  /**
+   * @private The cached result of the session check, shared by the app initializer and the
+   * route guard, so the session is only checked once. Reset on login; after a logout, the
+   * session is known to be invalid.
+   */
+  private sessionCheck$: Observable<boolean> | null = null;
+
+  // Logout events
+  /**
+   * @private The Subject emitting when the session ends.
+   */
+  private loggedOutSubject = new Subject<void>();
   /**
-   * Constructs the AuthService.
-   * @param {HttpClient} http The Angular service for making HTTP requests.
+   * @public An observable stream emitting when the session ends (by logging out, in another tab,
+   * or after a failed token refresh), right before the user's state is cleared. Services holding
+   * data of the user drop it, so nothing is left for the next user of the browser.
    */
-  constructor(private http: HttpClient) {}
+  public loggedOut$ = this.loggedOutSubject.asObservable();
+
+  /**
+   * @private The channel to the other tabs, or `null` if the browser lacks `BroadcastChannel`.
+   */
+  private authChannel: BroadcastChannel | null = null;
+
+  /**
+   * Constructs the AuthService and starts listening for logouts in other tabs.
+   * @param {ApiClient} api The typed client for the Videoflix REST API.
+   * @param {Router} router Used to open the login page after a logout in another tab.
+   */
+  constructor(private api: ApiClient, private router: Router) {
+    this.listenForLogoutInOtherTabs();
+  }
 
   /**
    * Registers a new user with the backend.
@@ -127,8 +143,8 @@ export class AuthService {
    * @returns {Observable<ApiResponse>} An observable of the API response.
    */
   register(userData: RegisterData): Observable<ApiResponse> {
-    return this.http
-      .post<any>(this.getFullUrl(this.REGISTER_URL), userData)
+    return this.api
+      .post(this.REGISTER_URL, userData, messageResponseSchema)
       .pipe(
         map((response) => this.handleSuccessResponse(response)),
         catchError((error) => this.handleErrorResponse(error))
@@ -137,7 +153,8 @@ export class AuthService {
 
   /**
    * Logs in a user using session-based authentication.
-   * On success, it updates the `isAuthenticatedSubject` and `currentUserSubject`.
+   * On success, it updates the `isAuthenticatedSubject` and `currentUserSubject`, and
+   * stores the JWT access and refresh tokens if the backend returns them in the body.
    * @param {string} email The user's email address.
    * @param {string} password The user's password.
    * @returns {Observable<ApiResponse>} An observable of the API response.
@@ -145,22 +162,27 @@ export class AuthService {
   login(email: string, password: string): Observable<ApiResponse> {
     const loginData: LoginData = { email, password };
 
-    return this.http
-      .post<any>(this.getFullUrl(this.LOGIN_URL), loginData, {
-        observe: 'response',
-        withCredentials: true,
+    return this.api
+      .post(this.LOGIN_URL, loginData, loginResponseSchema, {
+        context: new HttpContext().set(SKIP_AUTH_REFRESH, true),
       })
       .pipe(
         map((response) => {
-          const result = this.handleSuccessResponse(response.body);
+          const result = this.handleSuccessResponse(response);
 
           if (result.success) {
             // Set authentication status
             this.isAuthenticatedSubject.next(true);
+            this.sessionCheck$ = null;
 
-            // Set user data if available
-            if (response.body?.user) {
-              this.currentUserSubject.next(response.body.user);
+            // Store tokens if the backend does not keep them in cookies
+            this.storeTokens(response);
+
+            // Set user data, or load it if the response does not contain it
+            if (response.user) {
+              this.currentUserSubject.next(response.user);
+            } else {
+              this.validateSession().subscribe();
             }
           }
 
@@ -171,13 +193,60 @@ export class AuthService {
   }
 
   /**
-   * Fetches a CSRF token from the Django backend.
-   * @returns {Observable<any>} An observable containing the CSRF token response.
+   * Refreshes the access token using the refresh token (or the refresh cookie).
+   *
+   * Only one refresh request is made at a time: while it is in flight, every caller
+   * receives the same shared observable, so concurrent 401 responses are queued behind
+   * a single refresh. If the refresh itself fails, the session is ended locally.
+   *
+   * @returns {Observable<TokenRefreshResponse>} An observable of the refresh response.
    */
-  getCSRFToken(): Observable<any> {
-    return this.http.get(`${this.API_BASE_URL}csrf/`, {
-      withCredentials: true,
-    });
+  refreshToken(): Observable<TokenRefreshResponse> {
+    if (!this.refreshInProgress$) {
+      const refresh = localStorage.getItem(this.REFRESH_TOKEN_KEY);
+
+      this.refreshInProgress$ = this.api
+        .post(
+          this.REFRESH_URL,
+          refresh ? { refresh } : {},
+          tokenRefreshResponseSchema,
+          { context: new HttpContext().set(SKIP_AUTH_REFRESH, true) }
+        )
+        .pipe(
+          tap({
+            next: (response) => this.storeTokens(response),
+            error: () => this.endSession(),
+          }),
+          finalize(() => (this.refreshInProgress$ = null)),
+          shareReplay(1)
+        );
+    }
+    return this.refreshInProgress$;
+  }
+
+  /**
+   * Synchronously checks if a token refresh request is currently in flight.
+   * @returns {boolean} `true` while the access token is being refreshed.
+   */
+  isRefreshing(): boolean {
+    return this.refreshInProgress$ !== null;
+  }
+
+  /**
+   * Gets the stored JWT access token.
+   * @returns {string | null} The access token, or `null` if the backend uses cookies only.
+   */
+  getAccessToken(): string | null {
+    return localStorage.getItem(this.ACCESS_TOKEN_KEY);
+  }
+
+  /**
+   * Gets the time the session expires at, from the stored JWT refresh token. HTTP-Only
+   * cookies cannot be read, so the expiry is unknown for cookie-based sessions.
+   * @returns {number | null} The expiry as a timestamp in milliseconds, or `null` if unknown.
+   */
+  getSessionExpiry(): number | null {
+    return getTokenExpiry(localStorage.getItem(this.REFRESH_TOKEN_KEY));
   }
 
   /**
@@ -185,7 +254,7 @@ export class AuthService {
    * @returns {Promise<any>} A promise that resolves with the JSON response.
    */
   testDirectFetch(): Promise<any> {
-    return fetch(`${this.API_BASE_URL}video/`, {
+    return fetch(this.api.url('video/'), {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -203,10 +272,8 @@ export class AuthService {
    * @returns {Observable<ApiResponse>} An observable of the API response.
    */
   testSession(): Observable<ApiResponse> {
-    return this.http
-      .get<any>(this.getFullUrl('user/'), {
-        withCredentials: true,
-      })
+    return this.api
+      .get(this.VALIDATE_URL, userSchema)
       .pipe(
         map((response) => {
           return this.handleSuccessResponse(response);
@@ -218,37 +285,58 @@ export class AuthService {
   }
 
   /**
-   * Validates the current user session by making an authenticated request to a protected endpoint.
-   * Updates the application's authentication state based on the outcome.
+   * Validates the current user session by loading the signed-in user from the `user/`
+   * endpoint, which hydrates `currentUser$` (e.g. after a page reload).
+   *
+   * The check runs once on app start (see `app.config.ts`); its result is cached and shared
+   * with later callers such as the `AuthGuard`. An expired access token is refreshed, but a
+   * failed refresh does not redirect to the login page, as guests may be on a public page.
+   *
    * @returns {Observable<boolean>} An observable that emits `true` for a valid session, and `false` otherwise.
    */
   validateSession(): Observable<boolean> {
-    return this.http
-      .get<any[]>(this.getFullUrl('video/'), { withCredentials: true })
-      .pipe(
-        map(() => {
-          this.isAuthenticatedSubject.next(true);
-          return true;
-        }),
-        catchError(() => {
-          this.isAuthenticatedSubject.next(false);
-          this.currentUserSubject.next(null);
-          return of(false);
+    if (!this.sessionCheck$) {
+      this.sessionCheck$ = this.api
+        .get(this.VALIDATE_URL, userSchema, {
+          context: new HttpContext().set(SKIP_LOGIN_REDIRECT, true),
         })
-      );
+        .pipe(
+          map((user) => {
+            this.currentUserSubject.next(user);
+            this.isAuthenticatedSubject.next(true);
+            return true;
+          }),
+          catchError(() => {
+            this.isAuthenticatedSubject.next(false);
+            this.currentUserSubject.next(null);
+            return of(false);
+          }),
+          shareReplay(1)
+        );
+    }
+    return this.sessionCheck$;
   }
 
   /**
-   * Logs out the current user by clearing local state.
-   * Note: For session auth, a backend logout endpoint should also be called if it exists.
+   * Logs out the current user. The local state is cleared immediately, then the backend
+   * invalidates the session (deleting the HTTP-Only cookies and revoking the refresh token),
+   * and the other open tabs are told to log out as well.
+   * The caller is responsible for navigating to the login page.
    * @returns {void}
    */
   logout(): void {
-    localStorage.removeItem('access_token');
-    localStorage.removeItem('refresh_token');
+    const refresh = localStorage.getItem(this.REFRESH_TOKEN_KEY);
 
-    this.currentUserSubject.next(null);
-    this.isAuthenticatedSubject.next(false);
+    // End the session first, so progress saved by a closing player is still authorized.
+    this.endSession();
+    this.api
+      .post(this.LOGOUT_URL, refresh ? { refresh } : {}, unknown, {
+        context: new HttpContext().set(SKIP_AUTH_REFRESH, true),
+      })
+      .subscribe({
+        error: (error) => console.error('Failed to log out on the server:', error),
+      });
+    this.announceLogout();
   }
 
   /**
@@ -259,8 +347,8 @@ export class AuthService {
   forgotPassword(email: string): Observable<ApiResponse> {
     const data: ForgotPasswordData = { email };
 
-    return this.http
-      .post<any>(this.getFullUrl(this.FORGET_PASSWORD_URL), data)
+    return this.api
+      .post(this.FORGET_PASSWORD_URL, data, messageResponseSchema)
       .pipe(
         map((response) => this.handleSuccessResponse(response)),
         catchError((error) => this.handleErrorResponse(error))
@@ -285,12 +373,12 @@ export class AuthService {
     const endpoint = `password_confirm/${encodeURIComponent(
       uid
     )}/${encodeURIComponent(token)}/`;
-    const data = {
+    const data: ResetPasswordData = {
       new_password: newPassword,
       confirm_password: confirmPassword,
     };
 
-    return this.http.post<any>(this.getFullUrl(endpoint), data).pipe(
+    return this.api.post(endpoint, data, messageResponseSchema).pipe(
       map((response) => this.handleSuccessResponse(response)),
       catchError((error) => this.handleErrorResponse(error))
     );
@@ -308,7 +396,7 @@ export class AuthService {
       token
     )}/`;
 
-    return this.http.get<any>(this.getFullUrl(endpoint)).pipe(
+    return this.api.get(endpoint, messageResponseSchema).pipe(
       map((response) => this.handleSuccessResponse(response)),
       catchError((error) => this.handleErrorResponse(error))
     );
@@ -331,26 +419,94 @@ export class AuthService {
   }  
 
   /**
-   * Constructs the full API URL for a given relative path.
+   * Ends the session locally: announces it via `loggedOut$`, then clears the tokens, the
+   * cached session check and the user's state.
    * @private
-   * @param {string} path The relative path of the API endpoint.
-   * @returns {string} The complete URL.
    */
-  private getFullUrl(path: string): string {
-    return this.API_BASE_URL + path;
+  private endSession(): void {
+    this.loggedOutSubject.next();
+
+    localStorage.removeItem(this.ACCESS_TOKEN_KEY);
+    localStorage.removeItem(this.REFRESH_TOKEN_KEY);
+    this.sessionCheck$ = of(false);
+
+    this.currentUserSubject.next(null);
+    this.isAuthenticatedSubject.next(false);
+  }
+
+  /**
+   * Tells the other open tabs that the user has logged out.
+   * @private
+   */
+  private announceLogout(): void {
+    if (this.authChannel) {
+      this.authChannel.postMessage({ type: 'logout' });
+      return;
+    }
+    // Writing a key fires a storage event in every other tab of the same origin.
+    localStorage.setItem(this.LOGOUT_STORAGE_KEY, String(Date.now()));
+    localStorage.removeItem(this.LOGOUT_STORAGE_KEY);
+  }
+
+  /**
+   * Listens for logouts announced by other tabs, via `BroadcastChannel` or, as a fallback,
+   * via storage events.
+   * @private
+   */
+  private listenForLogoutInOtherTabs(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.authChannel = new BroadcastChannel(this.AUTH_CHANNEL);
+      this.authChannel.onmessage = (event: MessageEvent) => {
+        if (event.data?.type === 'logout') {
+          this.onLogoutInOtherTab();
+        }
+      };
+      return;
+    }
+    window.addEventListener('storage', (event) => {
+      if (event.key === this.LOGOUT_STORAGE_KEY && event.newValue) {
+        this.onLogoutInOtherTab();
+      }
+    });
+  }
+
+  /**
+   * Ends the session after the user logged out in another tab and opens the login page.
+   * Tabs without a session, e.g. a guest on a public page, stay where they are.
+   * @private
+   */
+  private onLogoutInOtherTab(): void {
+    if (!this.isAuthenticated()) return;
+
+    this.endSession();
+    this.router.navigate(['/auth/login']);
+  }
+
+  /**
+   * Stores the JWT tokens contained in a login or refresh response body, if any.
+   * @private
+   * @param {LoginResponse | TokenRefreshResponse} body The validated response body.
+   */
+  private storeTokens(body: LoginResponse | TokenRefreshResponse): void {
+    if (body.access) {
+      localStorage.setItem(this.ACCESS_TOKEN_KEY, body.access);
+    }
+    if (body.refresh) {
+      localStorage.setItem(this.REFRESH_TOKEN_KEY, body.refresh);
+    }
   }
 
   /**
    * A helper function to wrap a successful API response in the standard `ApiResponse` format.
    * @private
-   * @param {any} response The raw data from a successful HTTP response.
-   * @returns {ApiResponse} The standardized success response object.
+   * @param {T} response The validated body of a successful HTTP response.
+   * @returns {ApiResponse<T>} The standardized success response object.
    */
-  private handleSuccessResponse(response: any): ApiResponse {
+  private handleSuccessResponse<T>(response: T): ApiResponse<T> {
     return {
       success: true,
       data: response,
-      message: response.message || 'Operation successful',
+      message: (response as MessageResponse)?.message || 'Operation successful',
     };
   }
 
@@ -365,7 +521,10 @@ export class AuthService {
     let errorMessages: string[] = [];
     let errorMessage = 'An error occurred';
 
-    if (error.error) {
+    if (error instanceof ApiSchemaError) {
+      errorMessage = 'Unexpected response from the server. Please try again later.';
+      errorMessages.push(errorMessage);
+    } else if (error.error) {
       // Extract error messages from Django REST framework error format
       if (typeof error.error === 'object') {
         Object.keys(error.error).forEach((key) => {
@@ -0,0 +1,91 @@
+import { Injectable } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, finalize, map, shareReplay } from 'rxjs/operators';
+import { csrfTokenResponseSchema } from '../api/api.schemas';
+import { SKIP_AUTH_REFRESH } from '../interceptors/http-context.tokens';
+import { getCookie } from '../utils/cookie.utils';
+import { ApiClient } from './api-client.service';
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * Provides the CSRF token Django expects in the `X-CSRFToken` header of unsafe requests.
+ * The token is read from the `csrftoken` cookie. If the cookie is not set yet, it is
+ * requested from the `csrf/` endpoint once, right before the first request that needs it.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CsrfService {
+  private readonly CSRF_URL = 'csrf/';
+  private readonly COOKIE_NAME = 'csrftoken';
+
+  /**
+   * The token from the body of the last `csrf/` response, used if the cookie cannot be read
+   * (e.g. because the API runs on another origin).
+   * @private
+   */
+  private responseToken: string | null = null;
+
+  /**
+   * The shared `csrf/` request while one is in flight, otherwise `null`.
+   * @private
+   */
+  private tokenRequest$: Observable<string | null> | null = null;
+
+  /**
+   * Constructs the CsrfService.
+   * @param {ApiClient} api The typed client for the Videoflix REST API.
+   */
+  constructor(private api: ApiClient) {}
+
+  /**
+   * Gets the current CSRF token, fetching it first if there is none yet.
+   * @returns {Observable<string | null>} An observable of the token, or `null` if none could be obtained.
+   */
+  getToken(): Observable<string | null> {
+    const token = this.readToken();
+    return token ? of(token) : this.fetchToken();
+  }
+
+  /**
+   * Requests a new CSRF cookie from the backend, e.g. after the token was rejected. While the
+   * request is in flight, every caller receives the same shared observable. The request skips
+   * the token refresh, as the refresh request itself may be waiting for the CSRF token.
+   * @returns {Observable<string | null>} An observable of the token, or `null` if none could be obtained.
+   */
+  fetchToken(): Observable<string | null> {
+    if (!this.tokenRequest$) {
+      this.tokenRequest$ = this.api
+        .get(this.CSRF_URL, csrfTokenResponseSchema, {
+          context: new HttpContext().set(SKIP_AUTH_REFRESH, true),
+        })
+        .pipe(
+        map((response) => {
+          this.responseToken = response.csrfToken ?? null;
+          return this.readToken();
+        }),
+        catchError((error) => {
+          console.error('Failed to fetch the CSRF token:', error);
+          return of(null);
+        }),
+        finalize(() => (this.tokenRequest$ = null)),
+        shareReplay(1)
+      );
+    }
+    return this.tokenRequest$;
+  }
+
+  /**
+   * Reads the token from the cookie, which the backend may rotate at any time (e.g. on login),
+   * or else from the last `csrf/` response.
+   * @private
+   * @returns {string | null} The token, or `null` if none is known.
+   */
+  private readToken(): string | null {
+    return getCookie(this.COOKIE_NAME) ?? this.responseToken;
+  }
+}
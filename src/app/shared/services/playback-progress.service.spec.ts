@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject, Subject, of } from 'rxjs';
+import { User } from '../interfaces/api.interfaces';
+import { AuthService } from './auth.service';
+import { ProgressStore } from './progress-store.service';
+
+import { PlaybackProgressService } from './playback-progress.service';
+
+describe('PlaybackProgressService', () => {
+  const user = { id: 7 } as User;
+
+  let service: PlaybackProgressService;
+  let store: jasmine.SpyObj<ProgressStore>;
+  let loggedOut: Subject<void>;
+  let isAuthenticated: BehaviorSubject<boolean>;
+  let currentUser: User | null;
+
+  beforeEach(() => {
+    store = jasmine.createSpyObj<ProgressStore>('ProgressStore', ['load', 'save', 'remove']);
+    store.load.and.returnValue(of([]));
+    store.save.and.returnValue(of(undefined));
+    loggedOut = new Subject<void>();
+    isAuthenticated = new BehaviorSubject(true);
+    currentUser = user;
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ProgressStore, useValue: store },
+        {
+          provide: AuthService,
+          useValue: {
+            loggedOut$: loggedOut.asObservable(),
+            isAuthenticated$: isAuthenticated.asObservable(),
+            getCurrentUser: () => currentUser,
+          },
+        },
+      ],
+    });
+    service = TestBed.inject(PlaybackProgressService);
+    service.loadProgress();
+  });
+
+  /**
+   * Ends the session like `AuthService.endSession`: announces the logout, then clears the user.
+   */
+  function logout(): void {
+    loggedOut.next();
+    currentUser = null;
+    isAuthenticated.next(false);
+  }
+
+  it('should save the final position of a player before dropping the progress on logout', () => {
+    // Like the player, which subscribes after the service was created.
+    loggedOut.subscribe(() => service.trackProgress(3, 120, 600, true));
+
+    logout();
+
+    expect(store.save).toHaveBeenCalledOnceWith('user_7', jasmine.objectContaining({ video_id: 3, position: 120 }));
+    expect(service.getResumePosition(3)).toBeNull();
+  });
+
+  it('should ignore positions after the logout until the progress is loaded again', () => {
+    logout();
+    service.trackProgress(3, 120, 600, true);
+
+    expect(store.save).not.toHaveBeenCalled();
+    expect(service.getResumePosition(3)).toBeNull();
+
+    currentUser = { id: 8 } as User;
+    service.loadProgress();
+    service.trackProgress(3, 60, 600, true);
+
+    expect(store.save).toHaveBeenCalledOnceWith('user_8', jasmine.objectContaining({ video_id: 3, position: 60 }));
+    expect(service.getResumePosition(3)).toBe(60);
+  });
+});
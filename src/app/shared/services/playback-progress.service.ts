@@ -0,0 +1,205 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { filter, switchMap, take } from 'rxjs/operators';
+import { Video } from '../interfaces/api.interfaces';
+import { PlaybackProgress } from '../interfaces/player.interfaces';
+import { AuthService } from './auth.service';
+import { ProgressStore } from './progress-store.service';
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * Tracks where the current user stopped watching each video. The player reports its
+ * position continuously; this service keeps the latest value in memory and persists it
+ * through the configured `ProgressStore` at most every few seconds per video.
+ * Components read the state via `progress$` to offer "resume" and "continue watching".
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PlaybackProgressService {
+  /** The minimum time between two persisted updates of the same video. */
+  private readonly SAVE_INTERVAL_MS = 5000;
+  /** Positions before this many seconds are not worth resuming. */
+  private readonly MIN_RESUME_SECONDS = 10;
+  /** A video counts as finished once this share of it has been watched. */
+  private readonly COMPLETED_RATIO = 0.95;
+
+  // =================================================================
+  // State Management Properties
+  // =================================================================
+  private progressSubject = new BehaviorSubject<Map<number, PlaybackProgress>>(new Map());
+  public progress$: Observable<Map<number, PlaybackProgress>> = this.progressSubject.asObservable();
+
+  /** The user key the current state was loaded for. */
+  private loadedUserKey: string | null = null;
+  /** Timestamps of the last persisted update, per video ID. */
+  private lastSavedAt = new Map<number, number>();
+  /** Whether the progress was dropped after a logout and not loaded again since. */
+  private isLoggedOut = false;
+
+  /**
+   * Constructs the PlaybackProgressService.
+   * @param {ProgressStore} store The storage backend for progress entries.
+   * @param {AuthService} authService Used to store the progress per user.
+   */
+  constructor(private store: ProgressStore, private authService: AuthService) {
+    // Dropped only once the session is cleared, after `loggedOut$` has let the players
+    // save their final position for the user who is logging out.
+    this.authService.loggedOut$
+      .pipe(
+        switchMap(() =>
+          this.authService.isAuthenticated$.pipe(
+            filter((isAuthenticated) => !isAuthenticated),
+            take(1)
+          )
+        )
+      )
+      .subscribe(() => this.clearProgress());
+  }
+
+  /**
+   * Loads the saved progress of the current user, unless it is already loaded.
+   * @returns {void}
+   */
+  loadProgress(): void {
+    const userKey = this.getUserKey();
+    if (this.loadedUserKey === userKey) return;
+
+    this.loadedUserKey = userKey;
+    this.isLoggedOut = false;
+    this.store.load(userKey).subscribe({
+      next: (entries) => {
+        this.progressSubject.next(new Map(entries.map((entry) => [entry.video_id, entry])));
+      },
+      error: (error) => console.error('Failed to load playback progress:', error),
+    });
+  }
+
+  /**
+   * Records the current playback position of a video. The in-memory state is always
+   * updated, while persisting is throttled unless `force` is set (e.g. on pause).
+   * Once a video is watched to the end, its entry is removed. After a logout, positions are
+   * ignored until the progress is loaded again, so they cannot show up for the next user.
+   *
+   * @param {number} videoId The ID of the video.
+   * @param {number} position The current playback position in seconds.
+   * @param {number} duration The total duration of the video in seconds.
+   * @param {boolean} [force=false] Persists the position regardless of the throttle.
+   * @returns {void}
+   */
+  trackProgress(videoId: number, position: number, duration: number, force = false): void {
+    if (this.isLoggedOut || !duration || !isFinite(duration)) return;
+
+    if (position / duration >= this.COMPLETED_RATIO) {
+      this.removeProgress(videoId);
+      return;
+    }
+
+    const progress: PlaybackProgress = {
+      video_id: videoId,
+      position,
+      duration,
+      updated_at: new Date().toISOString(),
+    };
+    this.setEntry(videoId, progress);
+
+    const lastSaved = this.lastSavedAt.get(videoId) ?? 0;
+    if (force || Date.now() - lastSaved >= this.SAVE_INTERVAL_MS) {
+      this.lastSavedAt.set(videoId, Date.now());
+      this.store.save(this.getUserKey(), progress).subscribe({
+        error: (error) => console.error('Failed to save playback progress:', error),
+      });
+    }
+  }
+
+  /**
+   * Returns the position a video can be resumed from.
+   * @param {number} videoId The ID of the video.
+   * @returns {number | null} The position in seconds, or `null` if there is nothing to resume.
+   */
+  getResumePosition(videoId: number): number | null {
+    const progress = this.progressSubject.value.get(videoId);
+    if (!progress || progress.position < this.MIN_RESUME_SECONDS) return null;
+    return progress.position;
+  }
+
+  /**
+   * Returns how much of a video has been watched.
+   * @param {number} videoId The ID of the video.
+   * @returns {number | null} A ratio between 0 and 1, or `null` if there is no progress.
+   */
+  getProgressRatio(videoId: number): number | null {
+    const progress = this.progressSubject.value.get(videoId);
+    if (!progress || !progress.duration) return null;
+    return Math.min(progress.position / progress.duration, 1);
+  }
+
+  /**
+   * Selects the videos the user has started but not finished, most recent first.
+   * @param {Video[]} videos The videos to select from.
+   * @returns {Video[]} The videos that can be resumed.
+   */
+  getContinueWatching(videos: Video[]): Video[] {
+    const progress = this.progressSubject.value;
+    return videos
+      .filter((video) => this.getResumePosition(video.id) !== null)
+      .sort((a, b) =>
+        progress.get(b.id)!.updated_at.localeCompare(progress.get(a.id)!.updated_at)
+      );
+  }
+
+  /**
+   * Removes the progress of a video from memory and from the store.
+   * @private
+   * @param {number} videoId The ID of the video.
+   */
+  private removeProgress(videoId: number): void {
+    if (!this.progressSubject.value.has(videoId)) return;
+
+    const entries = new Map(this.progressSubject.value);
+    entries.delete(videoId);
+    this.progressSubject.next(entries);
+    this.lastSavedAt.delete(videoId);
+
+    this.store.remove(this.getUserKey(), videoId).subscribe({
+      error: (error) => console.error('Failed to remove playback progress:', error),
+    });
+  }
+
+  /**
+   * Drops the in-memory progress when the user logs out. The stored progress is kept,
+   * so it is loaded again on the next login.
+   * @private
+   */
+  private clearProgress(): void {
+    this.isLoggedOut = true;
+    this.loadedUserKey = null;
+    this.lastSavedAt.clear();
+    this.progressSubject.next(new Map());
+  }
+
+  /**
+   * Replaces the in-memory progress entry of a video.
+   * @private
+   * @param {number} videoId The ID of the video.
+   * @param {PlaybackProgress} progress The new progress entry.
+   */
+  private setEntry(videoId: number, progress: PlaybackProgress): void {
+    const entries = new Map(this.progressSubject.value);
+    entries.set(videoId, progress);
+    this.progressSubject.next(entries);
+  }
+
+  /**
+   * Returns the key progress is stored under for the current user.
+   * @private
+   * @returns {string} The user key, or 'guest' if no user data is available.
+   */
+  private getUserKey(): string {
+    const user = this.authService.getCurrentUser();
+    return user ? `user_${user.id}` : 'guest';
+  }
+}
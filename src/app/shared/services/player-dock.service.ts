@@ -0,0 +1,56 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * Connects the pages with the application-wide main player (`PlayerDock`). A page that
+ * shows the player registers an element as its slot, and the player is moved into it.
+ * Without a slot, e.g. after navigating to the search, the player continues as a
+ * mini-player, so its `<video>` element and stream stay alive across routes.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PlayerDockService {
+  // =================================================================
+  // State Management Properties
+  // =================================================================
+  private pageSlotSubject = new BehaviorSubject<HTMLElement | null>(null);
+  public pageSlot$: Observable<HTMLElement | null> = this.pageSlotSubject.asObservable();
+
+  private startTimeSubject = new BehaviorSubject<number | null>(null);
+  public startTime$: Observable<number | null> = this.startTimeSubject.asObservable();
+
+  /**
+   * Shows the player within a page.
+   * @param {HTMLElement} slot The element the player is moved into.
+   * @returns {void}
+   */
+  attachToPage(slot: HTMLElement): void {
+    this.pageSlotSubject.next(slot);
+  }
+
+  /**
+   * Removes the player from a page, e.g. because the user navigates away.
+   * Does nothing if another page has registered its slot meanwhile.
+   * @param {HTMLElement} slot The element the page registered.
+   * @returns {void}
+   */
+  detachFromPage(slot: HTMLElement): void {
+    if (this.pageSlotSubject.value === slot) {
+      this.pageSlotSubject.next(null);
+    }
+  }
+
+  /**
+   * Sets the position the next video starts at, e.g. from a shared link.
+   * @param {number | null} startTime The position in seconds, or `null` to resume as usual.
+   * @returns {void}
+   */
+  setStartTime(startTime: number | null): void {
+    this.startTimeSubject.next(startTime);
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@angular/core';
+import type Hls from 'hls.js';
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * Provides the playback engine of the video player. hls.js is bundled with the application
+ * but split into its own chunk, which is only downloaded when a player first needs it.
+ * Later players reuse the loaded library.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PlayerEngineService {
+  /**
+   * The pending or completed import of hls.js, or `null` if it has not been requested yet.
+   * @private
+   */
+  private hlsLibrary: Promise<typeof Hls | null> | null = null;
+
+  /**
+   * Loads hls.js, unless it is already loaded.
+   * @returns {Promise<typeof Hls | null>} A promise that resolves with the hls.js class, or with
+   * `null` if its chunk could not be downloaded. A failed download is retried on the next call.
+   */
+  loadHls(): Promise<typeof Hls | null> {
+    if (!this.hlsLibrary) {
+      this.hlsLibrary = import('hls.js')
+        .then((module) => module.default)
+        .catch((error) => {
+          console.error('Failed to load hls.js:', error);
+          this.hlsLibrary = null;
+          return null;
+        });
+    }
+    return this.hlsLibrary;
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { PlayerPreferences } from '../interfaces/player.interfaces';
+import { AuthService } from './auth.service';
+
+/**
+ * The preferences of a user who has not changed any player settings yet.
+ */
+export const DEFAULT_PLAYER_PREFERENCES: PlayerPreferences = {
+  subtitlesEnabled: false,
+  subtitleLanguage: null,
+  captionStyle: {
+    fontScale: 1,
+    color: '#ffffff',
+    backgroundOpacity: 0.75,
+  },
+  audioLanguage: null,
+  autoplayNext: true,
+  skipIntros: false,
+  playbackRate: 1,
+};
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * Remembers the player settings of the current user in localStorage, e.g. the preferred
+ * audio and subtitle languages and the caption style, so every video starts with them.
+ * Stored values are merged over the defaults, so settings added later get their default.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PlayerPreferencesService {
+  private readonly STORAGE_PREFIX = 'videoflix_player_preferences_';
+
+  // =================================================================
+  // State Management Properties
+  // =================================================================
+  private preferencesSubject = new BehaviorSubject<PlayerPreferences>(DEFAULT_PLAYER_PREFERENCES);
+  public preferences$: Observable<PlayerPreferences> = this.preferencesSubject.asObservable();
+
+  /** The user key the current preferences were loaded for. */
+  private loadedUserKey: string | null = null;
+
+  /**
+   * Constructs the PlayerPreferencesService.
+   * @param {AuthService} authService Used to store the preferences per user.
+   */
+  constructor(private authService: AuthService) {}
+
+  /**
+   * Returns the preferences of the current user, loading them if the user has changed.
+   * @returns {PlayerPreferences} The current preferences.
+   */
+  getPreferences(): PlayerPreferences {
+    this.loadPreferences();
+    return this.preferencesSubject.value;
+  }
+
+  /**
+   * Changes some preferences of the current user and stores them.
+   * @param {Partial<PlayerPreferences>} changes The preferences to change.
+   * @returns {void}
+   */
+  updatePreferences(changes: Partial<PlayerPreferences>): void {
+    const preferences = { ...this.getPreferences(), ...changes };
+    this.preferencesSubject.next(preferences);
+    try {
+      localStorage.setItem(this.STORAGE_PREFIX + this.getUserKey(), JSON.stringify(preferences));
+    } catch (error) {
+      console.warn('Failed to save the player preferences:', error);
+    }
+  }
+
+  /**
+   * Loads the stored preferences of the current user, unless they are already loaded.
+   * Corrupt data is ignored.
+   * @private
+   */
+  private loadPreferences(): void {
+    const userKey = this.getUserKey();
+    if (this.loadedUserKey === userKey) return;
+
+    this.loadedUserKey = userKey;
+    let stored: Partial<PlayerPreferences> = {};
+    try {
+      const raw = localStorage.getItem(this.STORAGE_PREFIX + userKey);
+      stored = raw ? JSON.parse(raw) : {};
+    } catch {
+      stored = {};
+    }
+    this.preferencesSubject.next({
+      ...DEFAULT_PLAYER_PREFERENCES,
+      ...stored,
+      captionStyle: { ...DEFAULT_PLAYER_PREFERENCES.captionStyle, ...stored.captionStyle },
+    });
+  }
+
+  /**
+   * Builds the key under which the preferences of the current user are stored.
+   * @private
+   * @returns {string} The user's ID, or 'guest' if nobody is logged in.
+   */
+  private getUserKey(): string {
+    const user = this.authService.getCurrentUser();
+    return user ? `user_${user.id}` : 'guest';
+  }
+}
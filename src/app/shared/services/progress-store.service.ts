@@ -0,0 +1,166 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { PlaybackProgress } from '../interfaces/player.interfaces';
+import { playbackProgressListSchema } from '../api/api.schemas';
+import { unknown } from '../api/schema';
+import { ApiClient } from './api-client.service';
+
+/**
+ * The pluggable persistence layer for playback progress.
+ *
+ * @description
+ * `PlaybackProgressService` depends on this abstract class only, so the storage
+ * backend is chosen by the provider registered in `app.config.ts`.
+ */
+export abstract class ProgressStore {
+  /**
+   * Loads all saved progress entries of a user.
+   * @param {string} userKey A key identifying the current user.
+   * @returns {Observable<PlaybackProgress[]>} The saved progress entries.
+   */
+  abstract load(userKey: string): Observable<PlaybackProgress[]>;
+
+  /**
+   * Saves (creates or replaces) the progress entry of a video.
+   * @param {string} userKey A key identifying the current user.
+   * @param {PlaybackProgress} progress The progress to save.
+   * @returns {Observable<void>} Completes when the entry is saved.
+   */
+  abstract save(userKey: string, progress: PlaybackProgress): Observable<void>;
+
+  /**
+   * Removes the progress entry of a video, e.g. after it was watched to the end.
+   * @param {string} userKey A key identifying the current user.
+   * @param {number} videoId The ID of the video.
+   * @returns {Observable<void>} Completes when the entry is removed.
+   */
+  abstract remove(userKey: string, videoId: number): Observable<void>;
+}
+
+/**
+ * @Injectable
+ * Stores playback progress in the browser's localStorage, one entry per user.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LocalStorageProgressStore extends ProgressStore {
+  private readonly STORAGE_PREFIX = 'videoflix_progress_';
+
+  /**
+   * Loads all saved progress entries of a user from localStorage.
+   * @param {string} userKey A key identifying the current user.
+   * @returns {Observable<PlaybackProgress[]>} The saved progress entries.
+   */
+  load(userKey: string): Observable<PlaybackProgress[]> {
+    return of(this.read(userKey));
+  }
+
+  /**
+   * Saves the progress entry of a video to localStorage.
+   * @param {string} userKey A key identifying the current user.
+   * @param {PlaybackProgress} progress The progress to save.
+   * @returns {Observable<void>} Completes when the entry is saved.
+   */
+  save(userKey: string, progress: PlaybackProgress): Observable<void> {
+    const entries = this.read(userKey).filter(
+      (entry) => entry.video_id !== progress.video_id
+    );
+    this.write(userKey, [...entries, progress]);
+    return of(undefined);
+  }
+
+  /**
+   * Removes the progress entry of a video from localStorage.
+   * @param {string} userKey A key identifying the current user.
+   * @param {number} videoId The ID of the video.
+   * @returns {Observable<void>} Completes when the entry is removed.
+   */
+  remove(userKey: string, videoId: number): Observable<void> {
+    this.write(
+      userKey,
+      this.read(userKey).filter((entry) => entry.video_id !== videoId)
+    );
+    return of(undefined);
+  }
+
+  /**
+   * Reads and parses the entries of a user, ignoring corrupt data.
+   * @private
+   * @param {string} userKey A key identifying the current user.
+   * @returns {PlaybackProgress[]} The stored entries.
+   */
+  private read(userKey: string): PlaybackProgress[] {
+    try {
+      const raw = localStorage.getItem(this.STORAGE_PREFIX + userKey);
+      const entries = raw ? JSON.parse(raw) : [];
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Serializes and writes the entries of a user.
+   * @private
+   * @param {string} userKey A key identifying the current user.
+   * @param {PlaybackProgress[]} entries The entries to store.
+   */
+  private write(userKey: string, entries: PlaybackProgress[]): void {
+    localStorage.setItem(this.STORAGE_PREFIX + userKey, JSON.stringify(entries));
+  }
+}
+
+/**
+ * @Injectable
+ * Stores playback progress on the backend, so it is shared between devices.
+ * Used when the `progressSync` feature is enabled in the runtime configuration.
+ * The user is identified by the session cookie, so `userKey` is not sent.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HttpProgressStore extends ProgressStore {
+  private readonly PROGRESS_URL = 'progress/';
+
+  /**
+   * Constructs the HttpProgressStore.
+   * @param {ApiClient} api The typed client for the Videoflix REST API.
+   */
+  constructor(private api: ApiClient) {
+    super();
+  }
+
+  /**
+   * Loads all progress entries of the logged-in user from the backend.
+   * @returns {Observable<PlaybackProgress[]>} The saved progress entries.
+   */
+  load(): Observable<PlaybackProgress[]> {
+    return this.api.get(this.PROGRESS_URL, playbackProgressListSchema);
+  }
+
+  /**
+   * Saves the progress entry of a video on the backend.
+   * @param {string} userKey Unused, the session identifies the user.
+   * @param {PlaybackProgress} progress The progress to save.
+   * @returns {Observable<void>} Completes when the entry is saved.
+   */
+  save(userKey: string, progress: PlaybackProgress): Observable<void> {
+    return this.api
+      .post(this.PROGRESS_URL, progress, unknown)
+      .pipe(map(() => undefined));
+  }
+
+  /**
+   * Removes the progress entry of a video on the backend.
+   * @param {string} userKey Unused, the session identifies the user.
+   * @param {number} videoId The ID of the video.
+   * @returns {Observable<void>} Completes when the entry is removed.
+   */
+  remove(userKey: string, videoId: number): Observable<void> {
+    return this.api
+      .delete(`${this.PROGRESS_URL}${videoId}/`, unknown)
+      .pipe(map(() => undefined));
+  }
+}
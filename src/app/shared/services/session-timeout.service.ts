@@ -0,0 +1,240 @@
+import { Inject, Injectable } from '@angular/core';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable, Subscription, fromEvent, interval, merge } from 'rxjs';
+import { distinctUntilChanged, finalize } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { getSafeReturnUrl, RETURN_URL_PARAM } from '../utils/return-url.utils';
+import { AuthService } from './auth.service';
+import { NotificationService } from './notification.service';
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * Ends the session of an inactive user. While the user is logged in, mouse, keyboard and
+ * touch input as well as a playing video (reported by the `VideoPlayer`) count as activity,
+ * shared by all open tabs. Shortly before the user would be logged out for inactivity, or
+ * before a stored refresh token expires, `secondsLeft$` starts a countdown, which the
+ * `SessionExpiryDialog` shows with the option to extend the session.
+ *
+ * A playing video is never interrupted: if the session is about to expire during playback,
+ * it is extended without asking.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionTimeoutService {
+  /** The DOM events that count as user activity. */
+  private readonly ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+  /** The localStorage key sharing the time of the last activity with the other tabs. */
+  private readonly ACTIVITY_STORAGE_KEY = 'videoflix_last_activity';
+  /** The minimum time between two recorded activities, so mouse moves stay cheap. */
+  private readonly ACTIVITY_THROTTLE_MS = 5000;
+  /** How often the remaining time of the session is checked. */
+  private readonly CHECK_INTERVAL_MS = 1000;
+  /** Playback reported within this time counts as a playing video. */
+  private readonly PLAYBACK_WINDOW_MS = 3000;
+
+  // =================================================================
+  // State Management Properties
+  // =================================================================
+  private secondsLeftSubject = new BehaviorSubject<number | null>(null);
+  /**
+   * @public The seconds until the session expires while the warning is due, otherwise `null`.
+   */
+  public secondsLeft$: Observable<number | null> = this.secondsLeftSubject.asObservable();
+
+  /** The time of the last activity in this tab. */
+  private lastActivityAt = 0;
+  /** The time playback was last reported. */
+  private lastPlaybackAt = 0;
+  /** The session expiry an extension was last requested for, to not retry it every second. */
+  private extendedExpiry: number | null = null;
+  /** Whether a token refresh extending the session is in flight. */
+  private isExtending = false;
+  /** The activity listeners and the countdown, active while the user is logged in. */
+  private monitor: Subscription | null = null;
+
+  /**
+   * Constructs the SessionTimeoutService and starts monitoring once the user is logged in.
+   * @param {AuthService} authService Provides the session and logs the user out.
+   * @param {Router} router Used to open the login page after the session has expired.
+   * @param {NotificationService} notificationService Tells the user why they were logged out.
+   * @param {AppConfig} config The runtime configuration with the timeout settings.
+   */
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+    private notificationService: NotificationService,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {
+    this.authService.isAuthenticated$
+      .pipe(distinctUntilChanged())
+      .subscribe((isAuthenticated) => (isAuthenticated ? this.start() : this.stop()));
+  }
+
+  /**
+   * Records playback of a video as activity, e.g. on every `timeupdate` of the main player.
+   * @returns {void}
+   */
+  reportPlayback(): void {
+    this.lastPlaybackAt = Date.now();
+    this.recordActivity();
+  }
+
+  /**
+   * Extends the session after the warning: resets the inactivity timer and refreshes the
+   * tokens, which renews a refresh token that is about to expire.
+   * @returns {void}
+   */
+  extendSession(): void {
+    this.extendedExpiry = this.authService.getSessionExpiry();
+    this.recordActivity(true);
+    this.secondsLeftSubject.next(null);
+    if (this.isExtending) return;
+
+    this.isExtending = true;
+    this.authService
+      .refreshToken()
+      .pipe(finalize(() => (this.isExtending = false)))
+      .subscribe({
+        error: () => this.openLogin(),
+      });
+  }
+
+  /**
+   * Logs the user out from the warning, instead of waiting for the session to expire.
+   * @returns {void}
+   */
+  logout(): void {
+    this.authService.logout();
+    this.router.navigate(['/auth/login']);
+  }
+
+  // =================================================================
+  // Monitoring
+  // =================================================================
+
+  /**
+   * Starts listening for activity and checking the remaining time of the session.
+   * @private
+   */
+  private start(): void {
+    this.stop();
+    this.extendedExpiry = null;
+    this.recordActivity(true);
+
+    const activity$ = merge(
+      ...this.ACTIVITY_EVENTS.map((type) => fromEvent(document, type, { passive: true }))
+    );
+    this.monitor = new Subscription();
+    this.monitor.add(activity$.subscribe(() => this.onUserActivity()));
+    this.monitor.add(interval(this.CHECK_INTERVAL_MS).subscribe(() => this.check()));
+  }
+
+  /**
+   * Stops monitoring and hides the warning, e.g. after logging out.
+   * @private
+   */
+  private stop(): void {
+    this.monitor?.unsubscribe();
+    this.monitor = null;
+    this.secondsLeftSubject.next(null);
+  }
+
+  /**
+   * Records input as activity. While the warning is shown, only an explicit extension counts,
+   * so moving the mouse towards the dialog does not dismiss it.
+   * @private
+   */
+  private onUserActivity(): void {
+    if (this.secondsLeftSubject.value === null) {
+      this.recordActivity();
+    }
+  }
+
+  /**
+   * Stores the time of an activity, at most every few seconds unless forced.
+   * @private
+   * @param {boolean} [force=false] Records the activity regardless of the throttle.
+   */
+  private recordActivity(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastActivityAt < this.ACTIVITY_THROTTLE_MS) return;
+
+    this.lastActivityAt = now;
+    localStorage.setItem(this.ACTIVITY_STORAGE_KEY, String(now));
+  }
+
+  /**
+   * Compares the remaining time of the session with the warning period: shows or updates the
+   * countdown, extends the session during playback, or logs the user out once it is over.
+   * @private
+   */
+  private check(): void {
+    const expiresAt = this.getExpiresAt();
+    if (expiresAt === null) return;
+
+    const remaining = expiresAt - Date.now();
+    if (remaining > this.config.session.warningSeconds * 1000) {
+      // E.g. activity in another tab or an extended session.
+      if (this.secondsLeftSubject.value !== null) {
+        this.secondsLeftSubject.next(null);
+      }
+      return;
+    }
+
+    const isPlaying = Date.now() - this.lastPlaybackAt < this.PLAYBACK_WINDOW_MS;
+    if (isPlaying && this.authService.getSessionExpiry() !== this.extendedExpiry) {
+      this.extendSession();
+      return;
+    }
+    if (remaining <= 0) {
+      this.expire();
+      return;
+    }
+    this.secondsLeftSubject.next(Math.ceil(remaining / 1000));
+  }
+
+  /**
+   * Calculates when the session expires: after the idle timeout since the last activity in any
+   * tab, or when the refresh token expires, whichever comes first.
+   * @private
+   * @returns {number | null} The expiry as a timestamp in milliseconds, or `null` if it never expires.
+   */
+  private getExpiresAt(): number | null {
+    const idleTimeoutMs = this.config.session.idleTimeoutMinutes * 60 * 1000;
+    const lastActivityAt = Math.max(
+      this.lastActivityAt,
+      Number(localStorage.getItem(this.ACTIVITY_STORAGE_KEY)) || 0
+    );
+    const deadlines = [
+      idleTimeoutMs > 0 ? lastActivityAt + idleTimeoutMs : null,
+      this.authService.getSessionExpiry(),
+    ].filter((deadline): deadline is number => deadline !== null);
+
+    return deadlines.length > 0 ? Math.min(...deadlines) : null;
+  }
+
+  /**
+   * Logs the user out after the session has expired and opens the login page, which
+   * returns to the current page after logging in again.
+   * @private
+   */
+  private expire(): void {
+    this.authService.logout();
+    this.notificationService.show('Sie wurden wegen Inaktivität abgemeldet.', 'info', 5000);
+    this.openLogin();
+  }
+
+  /**
+   * Opens the login page with the current page as the page to return to.
+   * @private
+   */
+  private openLogin(): void {
+    this.router.navigate(['/auth/login'], {
+      queryParams: { [RETURN_URL_PARAM]: getSafeReturnUrl(this.router.url) },
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map, shareReplay } from 'rxjs/operators';
+import { Video } from '../interfaces/api.interfaces';
+import { ThumbnailCue, ThumbnailTrack } from '../interfaces/player.interfaces';
+import { parseThumbnailVtt } from '../utils/thumbnail.utils';
+
+/**
+ * @Injectable
+ * Provided in the root of the application, making it a singleton service.
+ *
+ * @description
+ * Provides the preview frames shown above the player's seek bar. A video's WebVTT
+ * thumbnail track takes precedence over its sprite sheet description. Parsed tracks
+ * are cached, so switching back to a video does not fetch its track again.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ThumbnailService {
+  /**
+   * The parsed WebVTT tracks, keyed by their absolute URL.
+   * @private
+   */
+  private vttCache = new Map<string, Observable<ThumbnailCue[]>>();
+
+  /**
+   * Constructs the ThumbnailService.
+   * @param {HttpClient} http The Angular service for making HTTP requests.
+   */
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Returns the preview frames of a video.
+   * @param {Video} video The video.
+   * @returns {Observable<ThumbnailTrack | null>} An observable of the frames, or of `null` if the
+   * video has none or its track cannot be loaded, in which case only the timestamp is shown.
+   */
+  getThumbnails(video: Video): Observable<ThumbnailTrack | null> {
+    const sprite: ThumbnailTrack | null = video.thumbnail_sprite
+      ? { kind: 'sprite', sprite: video.thumbnail_sprite }
+      : null;
+
+    if (!video.thumbnails_vtt) {
+      return of(sprite);
+    }
+
+    return this.loadVtt(video.thumbnails_vtt).pipe(
+      map((cues): ThumbnailTrack | null => (cues.length > 0 ? { kind: 'vtt', cues } : sprite)),
+      catchError((error) => {
+        console.warn(`Could not load the thumbnail track ${video.thumbnails_vtt}`, error);
+        return of(sprite);
+      })
+    );
+  }
+
+  /**
+   * Fetches and parses a WebVTT thumbnail track, using the cache if possible.
+   * Failed requests are not cached, so they are retried for the next video.
+   * @private
+   * @param {string} url The URL of the track, relative to the base href or absolute.
+   * @returns {Observable<ThumbnailCue[]>} An observable of the cues.
+   */
+  private loadVtt(url: string): Observable<ThumbnailCue[]> {
+    const trackUrl = new URL(url, document.baseURI).href;
+
+    if (!this.vttCache.has(trackUrl)) {
+      const cues$ = this.http.get(trackUrl, { responseType: 'text', withCredentials: true }).pipe(
+        map((text) => parseThumbnailVtt(text, trackUrl)),
+        catchError((error) => {
+          this.vttCache.delete(trackUrl);
+          return throwError(() => error);
+        }),
+        shareReplay(1)
+      );
+      this.vttCache.set(trackUrl, cues$);
+    }
+    return this.vttCache.get(trackUrl)!;
+  }
+}
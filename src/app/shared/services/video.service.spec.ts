@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of } from 'rxjs';
+import { DEFAULT_APP_CONFIG, provideAppConfig } from '../config/app-config';
+import { Video, VideoListResponse } from '../interfaces/api.interfaces';
+import { ApiClient } from './api-client.service';
+import { AuthService } from './auth.service';
+
+import { VideoService } from './video.service';
+
+describe('VideoService', () => {
+  const firstPage: VideoListResponse = {
+    count: 3,
+    results: [createVideo(1, 'Action'), createVideo(2, 'Drama')],
+    next: 'https://api.videoflix.test/api/video/?page=2&page_size=20',
+  };
+  const lastPage: VideoListResponse = {
+    count: 3,
+    results: [createVideo(3, 'Drama')],
+  };
+
+  let service: VideoService;
+  let api: jasmine.SpyObj<ApiClient>;
+  let loggedOut: Subject<void>;
+
+  beforeEach(() => {
+    api = jasmine.createSpyObj<ApiClient>('ApiClient', ['get']);
+    loggedOut = new Subject<void>();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideAppConfig(DEFAULT_APP_CONFIG),
+        { provide: ApiClient, useValue: api },
+        { provide: AuthService, useValue: { loggedOut$: loggedOut.asObservable() } },
+      ],
+    });
+    service = TestBed.inject(VideoService);
+  });
+
+  /**
+   * Answers the requests for the first and the last page of the catalog.
+   */
+  function respondWithPages(): void {
+    (api.get as jasmine.Spy).and.callFake(
+      (path: string, schema: unknown, options: { params: Record<string, string> }) =>
+        of(options.params['page'] === '2' ? lastPage : firstPage)
+    );
+  }
+
+  describe('loadAllVideos', () => {
+    it('should load every page if the search runs before the catalog was paged', () => {
+      respondWithPages();
+
+      service.loadAllVideos().subscribe();
+
+      expect(api.get).toHaveBeenCalledTimes(2);
+      expect(service.getCurrentVideos().map((video) => video.id)).toEqual([1, 2, 3]);
+    });
+
+    it('should mark the catalog as complete, so it is not loaded again', () => {
+      respondWithPages();
+
+      service.loadAllVideos().subscribe();
+      service.loadAllVideos().subscribe();
+
+      expect(api.get).toHaveBeenCalledTimes(2);
+      expect(service.hasMoreVideos()).toBeFalse();
+      expect(service.hasMoreVideos('Drama')).toBeFalse();
+    });
+
+    it('should share the requests between concurrent callers', () => {
+      const page = new Subject<VideoListResponse>();
+      (api.get as jasmine.Spy).and.returnValue(page);
+
+      service.loadAllVideos().subscribe();
+      service.loadAllVideos().subscribe();
+      page.next(lastPage);
+      page.complete();
+
+      expect(api.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fill the state after logging out while it is loading', () => {
+      const page = new Subject<VideoListResponse>();
+      (api.get as jasmine.Spy).and.returnValue(page);
+
+      service.loadAllVideos().subscribe();
+      loggedOut.next();
+      page.next(lastPage);
+
+      expect(service.getCurrentVideos()).toEqual([]);
+    });
+  });
+});
+
+/**
+ * Creates a minimal video for the tests.
+ * @param {number} id The ID of the video.
+ * @param {string} category The category of the video.
+ * @returns {Video} The video.
+ */
+function createVideo(id: number, category: string): Video {
+  return { id, title: `Video ${id}`, category };
+}
@@ -1,8 +1,26 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { BehaviorSubject, Observable } from 'rxjs';
-import { map, catchError } from 'rxjs/operators';
-import { Video, ApiResponse } from '../interfaces/api.interfaces';
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, Subject, of, throwError } from 'rxjs';
+import { map, catchError, finalize, expand, last, switchMap, tap, shareReplay, takeUntil } from 'rxjs/operators';
+import { Video, ApiResponse, VideoListResponse } from '../interfaces/api.interfaces';
+import { VideoRendition } from '../interfaces/player.interfaces';
+import { VideoSearchQuery } from '../interfaces/search.interfaces';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { videoPageSchema, videoSchema } from '../api/api.schemas';
+import { getSearchTerms } from '../utils/search.utils';
+import { compareEpisodes } from '../utils/episode.utils';
+import { ApiClient } from './api-client.service';
+import { AuthService } from './auth.service';
+
+/**
+ * Builds the URL of a video's media playlist in place of the backend's layout, e.g. to play
+ * the bundled test stream of the mock backend. `null` (the default) uses `mediaBaseUrl`.
+ */
+export const HLS_URL_RESOLVER = new InjectionToken<
+  ((videoId: number, resolution: string) => string) | null
+>('HLS_URL_RESOLVER', {
+  providedIn: 'root',
+  factory: () => null,
+});
 
 /**
  * @Injectable
@@ -20,10 +38,29 @@ import { Video, ApiResponse } from '../interfaces/api.interfaces';
   providedIn: 'root'
 })
 export class VideoService {
-  // private readonly API_BASE_URL = 'http://127.0.0.1:8000/api/'; 
-  private readonly API_BASE_URL = 'http://localhost:8000/api/'; 
   private readonly VIDEOS_URL = 'video/';
 
+  /**
+   * The number of videos requested per page. Ignored by backends without pagination,
+   * which return the whole catalog at once.
+   */
+  private readonly PAGE_SIZE = 20;
+
+  /**
+   * The key of the whole catalog in the paging state, as opposed to a single category.
+   */
+  private readonly CATALOG_KEY = '';
+
+  /**
+   * The renditions the backend encodes for every video, ordered from lowest to highest quality.
+   * The bandwidth values are the peak bitrates advertised to hls.js for its ABR decisions.
+   */
+  private readonly RENDITIONS: VideoRendition[] = [
+    { name: '480p', width: 854, height: 480, bandwidth: 1400000 },
+    { name: '720p', width: 1280, height: 720, bandwidth: 2800000 },
+    { name: '1080p', width: 1920, height: 1080, bandwidth: 5000000 },
+  ];
+
   // =================================================================
   // State Management Properties
   // =================================================================
@@ -36,40 +73,70 @@ export class VideoService {
   private currentVideoSubject = new BehaviorSubject<Video | null>(null);
   public currentVideo$ = this.currentVideoSubject.asObservable();
 
+  // =================================================================
+  // Paging State
+  // =================================================================
+  /**
+   * The query parameters of the next page, per category (`CATALOG_KEY` for the whole
+   * catalog). `null` means all pages are loaded; a missing category has not been paged yet.
+   */
+  private nextPageParams = new Map<string, Record<string, string> | null>();
+
+  /**
+   * The categories (or `CATALOG_KEY`) whose next page is currently being loaded.
+   */
+  private loadingPages = new Set<string>();
+
+  /**
+   * The shared request for all remaining pages of the catalog while it is in flight.
+   */
+  private allPagesRequest$: Observable<void> | null = null;
+
+  /**
+   * Emits when the state is cleared, cancelling a request for all pages that is still in flight.
+   */
+  private stateCleared = new Subject<void>();
+
   /**
    * Constructs the VideoService.
-   * @param {HttpClient} http The Angular service for making HTTP requests.
+   * @param {ApiClient} api The typed client for the Videoflix REST API.
+   * @param {AppConfig} config The runtime configuration providing the media base URL.
+   * @param {AuthService} authService Announces logouts, which clear the loaded videos.
+   * @param {Function | null} hlsUrlResolver Replaces the URL layout of the media playlists, if provided.
    */
-  constructor(private http: HttpClient) {}
+  constructor(
+    private api: ApiClient,
+    @Inject(APP_CONFIG) private config: AppConfig,
+    authService: AuthService,
+    @Inject(HLS_URL_RESOLVER)
+    private hlsUrlResolver: ((videoId: number, resolution: string) => string) | null
+  ) {
+    authService.loggedOut$.subscribe(() => this.clearState());
+  }
 
   /**
-   * Fetches all videos from the backend, then processes and stores them in the service's state.
-   * This method updates the `videos$`, `latestVideos$`, and `currentVideo$` streams.
-   * It uses `withCredentials: true` to support HTTP-Only cookie-based authentication.
+   * Fetches the first page of the catalog from the backend, then processes and stores it in
+   * the service's state, replacing any previously loaded videos and paging state.
+   * This method updates the `videos$` and `latestVideos$` streams; it does not select a video,
+   * which is left to the page showing the player.
+   * The `ApiClient` sends credentials to support HTTP-Only cookie-based authentication
+   * and validates that every video matches the expected shape.
    *
    * @returns {Observable<ApiResponse<Video[]>>} An observable that emits a structured ApiResponse
-   * containing the video data on success, or an error response on failure.
+   * containing the videos of the first page on success, or an error response on failure.
    */
   loadAndSetupVideos(): Observable<ApiResponse<Video[]>> {
-    return this.http.get<Video[]>(`${this.API_BASE_URL}${this.VIDEOS_URL}`, {
-      withCredentials: true
-    })
+    return this.fetchPage({ page_size: String(this.PAGE_SIZE) })
       .pipe(
-        map(videos => {
-          // Store videos in state
-          this.videosSubject.next(videos);
-          
-          // Calculate latest videos
-          this.calculateLatestVideos(videos);
-          
-          // Set first video as current
-          if (videos.length > 0) {
-            this.currentVideoSubject.next(videos[0]);
-          }
-          
+        map(page => {
+          // Reset the paging state and store the first page
+          this.nextPageParams.clear();
+          this.nextPageParams.set(this.CATALOG_KEY, this.getNextPageParams(page));
+          this.addVideos(page.results, true);
+
           return {
             success: true,
-            data: videos
+            data: page.results
           } as ApiResponse<Video[]>;
         }),
         catchError(error => {
@@ -78,6 +145,175 @@ export class VideoService {
       );
   }
 
+  /**
+   * Loads the next page of the whole catalog, or of a single category row, and appends
+   * its videos to the state. Videos that are already loaded (e.g. from a catalog page)
+   * are not added twice. Does nothing if all pages are loaded or a request is in flight.
+   *
+   * @param {string} [category] The category to page through; omit it for the whole catalog.
+   * @returns {Observable<ApiResponse<Video[]>>} An observable that emits the newly loaded videos,
+   * or an error response on failure.
+   */
+  loadMoreVideos(category?: string): Observable<ApiResponse<Video[]>> {
+    const key = category?.toLowerCase() ?? this.CATALOG_KEY;
+    const params = this.getPendingPageParams(key);
+
+    if (!params || this.loadingPages.has(key)) {
+      return of({ success: true, data: [] });
+    }
+
+    this.loadingPages.add(key);
+    return this.fetchPage(params).pipe(
+      map(page => {
+        this.nextPageParams.set(key, this.getNextPageParams(page));
+        const added = this.addVideos(page.results);
+        return { success: true, data: added } as ApiResponse<Video[]>;
+      }),
+      catchError(error => this.handleError(error)),
+      finalize(() => this.loadingPages.delete(key))
+    );
+  }
+
+  /**
+   * Loads every page of the catalog that is not loaded yet, e.g. to search or list the
+   * categories of the whole catalog in the browser. The videos are appended to the state,
+   * skipping those that are already loaded. Concurrent callers share the same requests.
+   *
+   * @returns {Observable<void>} An observable that emits once all pages are loaded. If a page
+   * fails to load, it emits as well, and the videos loaded so far are used.
+   */
+  loadAllVideos(): Observable<void> {
+    const firstParams = this.nextPageParams.has(this.CATALOG_KEY)
+      ? this.nextPageParams.get(this.CATALOG_KEY)!
+      : { page_size: String(this.PAGE_SIZE) };
+    if (!firstParams) {
+      return of(undefined);
+    }
+
+    if (!this.allPagesRequest$) {
+      this.allPagesRequest$ = this.fetchPage(firstParams).pipe(
+        expand(page => {
+          const params = this.getNextPageParams(page);
+          return params ? this.fetchPage(params) : EMPTY;
+        }),
+        takeUntil(this.stateCleared),
+        tap(page => {
+          this.addVideos(page.results);
+          if (!this.getNextPageParams(page)) {
+            // The whole catalog is loaded, so neither it nor a category needs to be paged anymore.
+            this.nextPageParams.forEach((_, key) => this.nextPageParams.set(key, null));
+            this.nextPageParams.set(this.CATALOG_KEY, null);
+          }
+        }),
+        last(null, null),
+        map(() => undefined),
+        catchError(error => {
+          console.error('Failed to load all videos:', error);
+          return of(undefined);
+        }),
+        finalize(() => (this.allPagesRequest$ = null)),
+        shareReplay(1)
+      );
+    }
+    return this.allPagesRequest$;
+  }
+
+  /**
+   * Checks whether more videos can be loaded for a category or the whole catalog.
+   *
+   * @param {string} [category] The category to check; omit it for the whole catalog.
+   * @returns {boolean} `true` if there are pages left to load.
+   */
+  hasMoreVideos(category?: string): boolean {
+    return this.getPendingPageParams(category?.toLowerCase() ?? this.CATALOG_KEY) !== null;
+  }
+
+  /**
+   * Checks whether the next page of a category or the whole catalog is being loaded.
+   *
+   * @param {string} [category] The category to check; omit it for the whole catalog.
+   * @returns {boolean} `true` while the request is in flight.
+   */
+  isLoadingMoreVideos(category?: string): boolean {
+    return this.loadingPages.has(category?.toLowerCase() ?? this.CATALOG_KEY);
+  }
+
+  /**
+   * Requests a page of the video list. A backend without pagination returns a plain
+   * array, which is treated as a single page containing the whole catalog.
+   *
+   * @private
+   * @param {Record<string, string>} params The query parameters of the page.
+   * @returns {Observable<VideoListResponse>} An observable of the page.
+   */
+  private fetchPage(params: Record<string, string>): Observable<VideoListResponse> {
+    return this.api.get(this.VIDEOS_URL, videoPageSchema, { params }).pipe(
+      map(body => (Array.isArray(body) ? { count: body.length, results: body } : body))
+    );
+  }
+
+  /**
+   * Returns the query parameters of the next page to load for a paging key.
+   * A category that has not been paged yet starts at its first page, as long as the
+   * catalog itself is incomplete; otherwise all of its videos are already loaded.
+   *
+   * @private
+   * @param {string} key A lowercased category, or `CATALOG_KEY`.
+   * @returns {Record<string, string> | null} The parameters, or `null` if all pages are loaded.
+   */
+  private getPendingPageParams(key: string): Record<string, string> | null {
+    if (this.nextPageParams.has(key)) {
+      return this.nextPageParams.get(key)!;
+    }
+    if (key === this.CATALOG_KEY || !this.nextPageParams.get(this.CATALOG_KEY)) {
+      return null;
+    }
+    return { category: key, page_size: String(this.PAGE_SIZE) };
+  }
+
+  /**
+   * Extracts the query parameters of the next page from a page's `next` link. Only the
+   * parameters are used, so page-number and cursor pagination both work, and the request
+   * goes through the configured API base URL even if the backend links to its own host.
+   *
+   * @private
+   * @param {VideoListResponse} page The loaded page.
+   * @returns {Record<string, string> | null} The parameters, or `null` on the last page.
+   */
+  private getNextPageParams(page: VideoListResponse): Record<string, string> | null {
+    if (!page.next) return null;
+    return Object.fromEntries(new URL(page.next, document.baseURI).searchParams);
+  }
+
+  /**
+   * Appends videos to the state, skipping those that are already loaded, and updates
+   * the latest videos accordingly.
+   *
+   * @private
+   * @param {Video[]} videos The videos of a loaded page.
+   * @param {boolean} [replace=false] Replaces the loaded videos instead of appending to them.
+   * @returns {Video[]} The videos that were actually added.
+   */
+  private addVideos(videos: Video[], replace = false): Video[] {
+    const current = replace ? [] : this.videosSubject.value;
+    const knownIds = new Set(current.map(video => video.id));
+    const added: Video[] = [];
+
+    for (const video of videos) {
+      if (!knownIds.has(video.id)) {
+        knownIds.add(video.id);
+        added.push(video);
+      }
+    }
+
+    if (added.length > 0 || replace) {
+      const all = [...current, ...added];
+      this.videosSubject.next(all);
+      this.calculateLatestVideos(all);
+    }
+    return added;
+  }
+
   /**
    * Filters the master list of videos to find those created within the last 5 days.
    * The result is then pushed to the `latestVideosSubject`.
@@ -130,15 +366,263 @@ export class VideoService {
     );
   }
 
+  /**
+   * Looks up a single video, e.g. for a deep link. Videos that are already loaded are
+   * returned from the state; otherwise the video is fetched from its detail endpoint.
+   *
+   * @param {number} videoId The unique ID of the video.
+   * @returns {Observable<Video | null>} An observable that emits the video, or `null`
+   * if no video with this ID exists. Other request errors are passed on.
+   */
+  getVideoById(videoId: number): Observable<Video | null> {
+    const video = this.videosSubject.value.find(entry => entry.id === videoId);
+    if (video) {
+      return of(video);
+    }
+
+    return this.api.get(`${this.VIDEOS_URL}${videoId}/`, videoSchema).pipe(
+      catchError(error => (error.status === 404 ? of(null) : throwError(() => error)))
+    );
+  }
+
+  // =================================================================
+  // Search
+  // =================================================================
+
+  /**
+   * Searches the catalog by title, description and category.
+   *
+   * With the `backendSearch` feature, the query is sent to the API's `search` filter
+   * and the first page of results is returned. Otherwise, or if that request fails, every page
+   * of the catalog is loaded and the videos are filtered in the browser; the result then
+   * updates whenever `videos$` changes.
+   *
+   * @param {VideoSearchQuery} query The search terms, category filter and sort order.
+   * @returns {Observable<Video[]>} An observable of the matching videos, in the requested order.
+   */
+  searchVideos(query: VideoSearchQuery): Observable<Video[]> {
+    if (!this.config.features.backendSearch) {
+      return this.filterVideos(query);
+    }
+
+    return this.fetchPage(this.toSearchParams(query)).pipe(
+      map(page => page.results),
+      catchError(error => {
+        console.warn('Backend search failed, filtering the loaded videos instead.', error);
+        return this.filterVideos(query);
+      })
+    );
+  }
+
+  /**
+   * Converts a search query into the query parameters of the API's video list
+   * (Django REST framework's `search` and `ordering` filters).
+   *
+   * @private
+   * @param {VideoSearchQuery} query The search query.
+   * @returns {Record<string, string>} The query parameters.
+   */
+  private toSearchParams(query: VideoSearchQuery): Record<string, string> {
+    const params: Record<string, string> = { page_size: String(this.PAGE_SIZE) };
+    if (query.q.trim()) params['search'] = query.q.trim();
+    if (query.category) params['category'] = query.category;
+    if (query.sort === 'newest') params['ordering'] = '-created_at';
+    if (query.sort === 'title') params['ordering'] = 'title';
+    return params;
+  }
+
+  /**
+   * Filters and sorts the whole catalog in the browser, once all of its pages are loaded.
+   * Every search term has to occur in the title, description or category.
+   *
+   * @private
+   * @param {VideoSearchQuery} query The search query.
+   * @returns {Observable<Video[]>} An observable of the matching videos.
+   */
+  private filterVideos(query: VideoSearchQuery): Observable<Video[]> {
+    const terms = getSearchTerms(query.q);
+
+    return this.loadAllVideos().pipe(
+      switchMap(() => this.videos$),
+      map(videos => videos
+        .filter(video => !query.category || video.category?.toLowerCase() === query.category.toLowerCase())
+        .map(video => ({ video, score: this.getSearchScore(video, terms) }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => this.compareSearchResults(a, b, query))
+        .map(result => result.video))
+    );
+  }
+
+  /**
+   * Rates how well a video matches the search terms. A title match counts more
+   * than a category match, which counts more than a description match.
+   *
+   * @private
+   * @param {Video} video The video to rate.
+   * @param {string[]} terms The lowercased search terms.
+   * @returns {number} The score, or 0 if a term does not occur at all. Without terms, every video scores 1.
+   */
+  private getSearchScore(video: Video, terms: string[]): number {
+    if (terms.length === 0) return 1;
+
+    const title = video.title.toLowerCase();
+    const category = video.category?.toLowerCase() ?? '';
+    const description = video.description?.toLowerCase() ?? '';
+    let score = 0;
+
+    for (const term of terms) {
+      const termScore =
+        (title.includes(term) ? 3 : 0) +
+        (category.includes(term) ? 2 : 0) +
+        (description.includes(term) ? 1 : 0);
+      if (termScore === 0) return 0;
+      score += termScore;
+    }
+    return score;
+  }
+
+  /**
+   * Compares two search results according to the requested sort order.
+   * Ties are broken by the creation date, newest first.
+   *
+   * @private
+   * @param {{ video: Video; score: number }} a The first result.
+   * @param {{ video: Video; score: number }} b The second result.
+   * @param {VideoSearchQuery} query The search query with the sort order.
+   * @returns {number} A negative number if `a` comes first, a positive number if `b` does.
+   */
+  private compareSearchResults(
+    a: { video: Video; score: number },
+    b: { video: Video; score: number },
+    query: VideoSearchQuery
+  ): number {
+    const newestFirst = (b.video.created_at ?? '').localeCompare(a.video.created_at ?? '');
+
+    if (query.sort === 'title') return a.video.title.localeCompare(b.video.title, 'de');
+    if (query.sort === 'relevance') return b.score - a.score || newestFirst;
+    return newestFirst;
+  }
+
   /**
    * Constructs the full URL for an HLS video stream manifest (.m3u8).
+   * A provided `HLS_URL_RESOLVER` (e.g. of the mock backend) takes precedence.
    *
    * @param {number} videoId The unique ID of the video.
    * @param {string} resolution The desired resolution (e.g., '720p', '1080p').
    * @returns {string} The complete URL for the HLS stream.
    */
   getHlsUrl(videoId: number, resolution: string): string {
-    return `${this.API_BASE_URL}video/${videoId}/${resolution}/index.m3u8`;
+    if (this.hlsUrlResolver) {
+      return this.hlsUrlResolver(videoId, resolution);
+    }
+    return `${this.config.mediaBaseUrl}video/${videoId}/${resolution}/index.m3u8`;
+  }
+
+  /**
+   * Returns the list of renditions available for every video.
+   *
+   * @returns {VideoRendition[]} The renditions, ordered from lowest to highest quality.
+   */
+  getRenditions(): VideoRendition[] {
+    return this.RENDITIONS;
+  }
+
+  /**
+   * Builds a multi-variant HLS master playlist that references every per-resolution
+   * media playlist of a video. The audio languages are added as an audio group and
+   * subtitles provided as HLS playlists as a subtitle group, so hls.js offers them in
+   * `audioTracks` and `subtitleTracks`. All URIs are absolute so the playlist can be
+   * served from a `blob:` URL.
+   *
+   * @param {Video} video The video to build the playlist for.
+   * @returns {string} The master playlist as `.m3u8` text.
+   */
+  buildMasterPlaylist(video: Video): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    const subtitles = (video.subtitles ?? []).filter(track => track.playlist);
+    const audioTracks = video.audio_tracks ?? [];
+    const groups =
+      (audioTracks.length > 0 ? ',AUDIO="audio"' : '') +
+      (subtitles.length > 0 ? ',SUBTITLES="subs"' : '');
+
+    // The track without a playlist is the audio within the video renditions, i.e. the original.
+    audioTracks.forEach(track => {
+      const isDefault = track.playlist ? 'NO' : 'YES';
+      const uri = track.playlist ? `,URI="${new URL(track.playlist, document.baseURI).href}"` : '';
+      lines.push(
+        `#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME=${this.toQuotedString(track.label)},LANGUAGE=${this.toQuotedString(track.language)},DEFAULT=${isDefault},AUTOSELECT=YES${uri}`
+      );
+    });
+
+    subtitles.forEach(track => {
+      const uri = new URL(track.playlist!, document.baseURI).href;
+      lines.push(
+        `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME=${this.toQuotedString(track.label)},LANGUAGE=${this.toQuotedString(track.language)},DEFAULT=NO,AUTOSELECT=NO,URI="${uri}"`
+      );
+    });
+
+    this.RENDITIONS.forEach(rendition => {
+      const uri = new URL(this.getHlsUrl(video.id, rendition.name), document.baseURI).href;
+      lines.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},RESOLUTION=${rendition.width}x${rendition.height},NAME="${rendition.name}"${groups}`,
+        uri
+      );
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Formats a value from the backend as a quoted-string attribute of the master playlist,
+   * which must not contain double quotes or line breaks; they would end the attribute or the tag.
+   *
+   * @private
+   * @param {string} value The value, e.g. the label of a track.
+   * @returns {string} The value in double quotes, with double quotes removed and line breaks replaced by spaces.
+   */
+  private toQuotedString(value: string): string {
+    return `"${value.replace(/"/g, '').replace(/[\r\n]+/g, ' ')}"`;
+  }
+
+  /**
+   * Creates an object URL for the synthesized master playlist of a video, which can be
+   * passed to `Hls.loadSource()` to enable adaptive bitrate switching.
+   * The caller is responsible for releasing it with `URL.revokeObjectURL()`.
+   *
+   * @param {Video} video The video to create the playlist for.
+   * @returns {string} A `blob:` URL pointing to the master playlist.
+   */
+  createMasterPlaylistUrl(video: Video): string {
+    const playlist = new Blob([this.buildMasterPlaylist(video)], {
+      type: 'application/vnd.apple.mpegurl'
+    });
+    return URL.createObjectURL(playlist);
+  }
+
+  /**
+   * Returns the video to offer once a video has ended: the next episode of its series,
+   * or else the next video of its category in the order of the catalog, or else the next
+   * video of the catalog. Other episodes of the same series are skipped when falling back.
+   * Only the loaded videos are considered.
+   *
+   * @param {Video} video The video that has ended.
+   * @returns {Video | null} The next video, or `null` if there is none.
+   */
+  getNextVideo(video: Video): Video | null {
+    const videos = this.videosSubject.value;
+    const isSameSeries = (candidate: Video) =>
+      video.series_id !== undefined && candidate.series_id === video.series_id;
+
+    const nextEpisode = videos
+      .filter(candidate => isSameSeries(candidate) && compareEpisodes(candidate, video) > 0)
+      .sort(compareEpisodes)[0];
+    if (nextEpisode) return nextEpisode;
+
+    const index = videos.findIndex(candidate => candidate.id === video.id);
+    const following = [...videos.slice(index + 1), ...videos.slice(0, Math.max(index, 0))].filter(
+      candidate => candidate.id !== video.id && !isSameSeries(candidate)
+    );
+    return following.find(candidate => candidate.category === video.category) ?? following[0] ?? null;
   }
 
   /**
@@ -152,6 +636,42 @@ export class VideoService {
     this.currentVideoSubject.next(video);
   }
 
+  /**
+   * Clears the current video, e.g. when the user closes the mini-player.
+   *
+   * @returns {void}
+   */
+  clearCurrentVideo(): void {
+    this.currentVideoSubject.next(null);
+  }
+
+  /**
+   * Clears the current video, the loaded videos and the paging state when the user logs out,
+   * which also closes the player. A request for all pages still in flight is cancelled, so it
+   * cannot fill the cleared state.
+   *
+   * @private
+   * @returns {void}
+   */
+  private clearState(): void {
+    this.stateCleared.next();
+    this.allPagesRequest$ = null;
+    this.currentVideoSubject.next(null);
+    this.videosSubject.next([]);
+    this.latestVideosSubject.next([]);
+    this.nextPageParams.clear();
+    this.loadingPages.clear();
+  }
+
+  /**
+   * Returns a snapshot of the current video.
+   *
+   * @returns {Video | null} The current video, or `null` if none is selected.
+   */
+  getCurrentVideo(): Video | null {
+    return this.currentVideoSubject.value;
+  }
+
   /**
    * Returns a snapshot of the current list of all videos.
    *
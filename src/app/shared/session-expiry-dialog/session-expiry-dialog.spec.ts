@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { provideMockBackend } from '../mock/provide-mock-backend';
+
+import { SessionExpiryDialog } from './session-expiry-dialog';
+
+describe('SessionExpiryDialog', () => {
+  let component: SessionExpiryDialog;
+  let fixture: ComponentFixture<SessionExpiryDialog>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SessionExpiryDialog],
+      providers: [provideRouter([]), provideMockBackend()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SessionExpiryDialog);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,69 @@
+import { Component, ElementRef, ViewChild } from '@angular/core';
+import { AsyncPipe } from '@angular/common';
+import { Observable } from 'rxjs';
+import { SessionTimeoutService } from '../services/session-timeout.service';
+import { formatTime } from '../utils/time.utils';
+
+/**
+ * @Component
+ * The warning shown shortly before the session expires.
+ *
+ * @description
+ * Follows the countdown of the `SessionTimeoutService` and asks the user whether to extend
+ * the session. The user can extend it or log out right away; without an answer, the user is
+ * logged out when the countdown ends. The dialog is rendered at the application root, so it
+ * appears on every page.
+ */
+@Component({
+  selector: 'app-session-expiry-dialog',
+  standalone: true,
+  imports: [AsyncPipe],
+  templateUrl: './session-expiry-dialog.html',
+  styleUrls: ['./session-expiry-dialog.scss'],
+})
+export class SessionExpiryDialog {
+  /**
+   * Focuses the button extending the session when the dialog opens.
+   * @ViewChild
+   */
+  @ViewChild('extendButton') set extendButton(button: ElementRef<HTMLButtonElement> | undefined) {
+    button?.nativeElement.focus();
+  }
+
+  /**
+   * The seconds until the session expires, or `null` while no warning is due.
+   * @type {Observable<number | null>}
+   */
+  readonly secondsLeft$: Observable<number | null>;
+
+  /**
+   * Constructs the SessionExpiryDialog component.
+   * @param {SessionTimeoutService} sessionTimeout - Service providing the countdown and ending or extending the session.
+   */
+  constructor(private sessionTimeout: SessionTimeoutService) {
+    this.secondsLeft$ = this.sessionTimeout.secondsLeft$;
+  }
+
+  /**
+   * Formats the remaining time of the countdown.
+   * @param {number} seconds - The seconds until the session expires.
+   * @returns {string} The formatted time, e.g. "0:45".
+   */
+  formatCountdown(seconds: number): string {
+    return formatTime(seconds);
+  }
+
+  /**
+   * Extends the session and closes the dialog.
+   */
+  extend(): void {
+    this.sessionTimeout.extendSession();
+  }
+
+  /**
+   * Logs the user out right away.
+   */
+  logout(): void {
+    this.sessionTimeout.logout();
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * A map of category keys to their display-friendly names.
+ */
+const CATEGORY_DISPLAY_NAMES: { [key: string]: string } = {
+  action: 'Action',
+  cartoon: 'Cartoon',
+  comedy: 'Comedy',
+  drama: 'Drama',
+  thriller: 'Thriller',
+  horror: 'Horror',
+  romance: 'Romance',
+  scifi: 'Science Fiction',
+  documentary: 'Documentary',
+};
+
+/**
+ * Gets the display-friendly name for a given category key.
+ *
+ * @param {string} category The category key (e.g., 'scifi').
+ * @returns {string} The display name (e.g., 'Science Fiction').
+ */
+export function getCategoryDisplayName(category: string): string {
+  const key = category.toLowerCase();
+  const defaultName = category.charAt(0).toUpperCase() + category.slice(1);
+  return CATEGORY_DISPLAY_NAMES[key] || defaultName;
+}
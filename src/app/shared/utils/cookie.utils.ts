@@ -0,0 +1,16 @@
+/**
+ * Reads a cookie of the current document. HTTP-Only cookies and cookies of other
+ * origins cannot be read.
+ *
+ * @param {string} name The name of the cookie.
+ * @returns {string | null} The decoded value, or `null` if the cookie is not set.
+ */
+export function getCookie(name: string): string | null {
+  for (const cookie of document.cookie.split(';')) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
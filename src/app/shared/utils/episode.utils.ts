@@ -0,0 +1,23 @@
+import { Video } from '../interfaces/api.interfaces';
+
+/**
+ * Compares two episodes of a series by season and episode number.
+ *
+ * @param {Video} a The first episode.
+ * @param {Video} b The second episode.
+ * @returns {number} A negative number if `a` comes first, a positive number if `b` does.
+ */
+export function compareEpisodes(a: Video, b: Video): number {
+  return (a.season ?? 0) - (b.season ?? 0) || (a.episode ?? 0) - (b.episode ?? 0);
+}
+
+/**
+ * Formats the season and episode number of a video for display.
+ *
+ * @param {Video} video The video.
+ * @returns {string} E.g. 'S1:F2', or an empty string if the video is no episode.
+ */
+export function formatEpisode(video: Video): string {
+  if (video.episode === undefined) return '';
+  return video.season !== undefined ? `S${video.season}:F${video.episode}` : `F${video.episode}`;
+}
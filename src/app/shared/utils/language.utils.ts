@@ -0,0 +1,29 @@
+/**
+ * Finds the entry of a language, e.g. a subtitle or audio track. An exact match of the
+ * language code is preferred, otherwise the primary language is compared
+ * (e.g. 'de' matches 'de-AT').
+ *
+ * @param {T[]} items The entries to search.
+ * @param {string | null} language The BCP 47 language code.
+ * @returns {T | undefined} The matching entry, if any.
+ */
+export function findByLanguage<T extends { language: string }>(
+  items: T[],
+  language: string | null
+): T | undefined {
+  if (!language) return undefined;
+  return (
+    items.find((item) => item.language === language) ??
+    items.find((item) => getPrimaryLanguage(item.language) === getPrimaryLanguage(language))
+  );
+}
+
+/**
+ * Returns the primary language of a language code.
+ *
+ * @param {string} language The BCP 47 language code (e.g. 'de-AT').
+ * @returns {string} The lower-case primary language (e.g. 'de').
+ */
+function getPrimaryLanguage(language: string): string {
+  return language.toLowerCase().split('-')[0];
+}
@@ -0,0 +1,64 @@
+import { PlayerErrorKind } from '../interfaces/player.interfaces';
+
+/**
+ * The user-readable reasons shown in the player's error overlay.
+ */
+const PLAYER_ERROR_MESSAGES: Record<PlayerErrorKind, string> = {
+  offline: 'Sie sind offline. Die Wiedergabe wird fortgesetzt, sobald die Verbindung wieder besteht.',
+  network: 'Die Verbindung zum Server ist gestört. Bitte versuchen Sie es in einem Moment erneut.',
+  notFound: 'Dieses Video ist derzeit nicht verfügbar.',
+  forbidden: 'Sie sind nicht berechtigt, dieses Video anzusehen. Bitte melden Sie sich erneut an.',
+  media: 'Das Video ist beschädigt oder kann auf diesem Gerät nicht abgespielt werden.',
+  unsupported: 'Ihr Browser unterstützt dieses Videoformat nicht.',
+  unknown: 'Video konnte nicht geladen werden.',
+};
+
+/**
+ * Classifies an error reported by hls.js.
+ *
+ * @param {{ type?: string; details?: string; response?: { code?: number } }} data
+ * The data of the hls.js `ERROR` event.
+ * @returns {PlayerErrorKind} The kind of error.
+ */
+export function classifyHlsError(data: {
+  type?: string;
+  details?: string;
+  response?: { code?: number };
+}): PlayerErrorKind {
+  const status = data.response?.code;
+  if (status === 401 || status === 403) return 'forbidden';
+  if (status === 404 || status === 410) return 'notFound';
+  if (data.details?.includes('IncompatibleCodecs')) return 'unsupported';
+  if (data.type === 'networkError') return navigator.onLine ? 'network' : 'offline';
+  if (data.type === 'mediaError') return 'media';
+  return 'unknown';
+}
+
+/**
+ * Classifies an error of the `<video>` element, e.g. during native HLS playback.
+ *
+ * @param {MediaError | null} error The `error` property of the element.
+ * @returns {PlayerErrorKind} The kind of error.
+ */
+export function classifyMediaError(error: MediaError | null): PlayerErrorKind {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_NETWORK:
+      return navigator.onLine ? 'network' : 'offline';
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'media';
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'unsupported';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Returns the user-readable reason for an error.
+ *
+ * @param {PlayerErrorKind} kind The kind of error.
+ * @returns {string} The message shown in the error overlay.
+ */
+export function getPlayerErrorMessage(kind: PlayerErrorKind): string {
+  return PLAYER_ERROR_MESSAGES[kind];
+}
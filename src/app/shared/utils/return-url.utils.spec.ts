@@ -0,0 +1,42 @@
+import { getSafeReturnUrl } from './return-url.utils';
+
+describe('getSafeReturnUrl', () => {
+  const origin = 'http://localhost:4200';
+
+  it('should accept a path of the application', () => {
+    expect(getSafeReturnUrl('/videos/3?t=42#player', origin)).toBe('/videos/3?t=42#player');
+  });
+
+  it('should reject a missing value', () => {
+    expect(getSafeReturnUrl(null, origin)).toBeNull();
+    expect(getSafeReturnUrl(undefined, origin)).toBeNull();
+    expect(getSafeReturnUrl('', origin)).toBeNull();
+  });
+
+  it('should reject protocol-relative URLs', () => {
+    expect(getSafeReturnUrl('//evil.com', origin)).toBeNull();
+    expect(getSafeReturnUrl('//evil.com/videos', origin)).toBeNull();
+  });
+
+  it('should reject backslashes, which browsers treat like slashes', () => {
+    expect(getSafeReturnUrl('/\\evil.com', origin)).toBeNull();
+    expect(getSafeReturnUrl('/videos\\..\\\\evil.com', origin)).toBeNull();
+  });
+
+  it('should reject absolute URLs, also of other origins', () => {
+    expect(getSafeReturnUrl('https://evil.com/videos', origin)).toBeNull();
+    expect(getSafeReturnUrl('http://localhost:4200/videos', origin)).toBeNull();
+    expect(getSafeReturnUrl('javascript:alert(1)', origin)).toBeNull();
+  });
+
+  it('should reject control characters', () => {
+    expect(getSafeReturnUrl('/\t/evil.com', origin)).toBeNull();
+    expect(getSafeReturnUrl('/\n/evil.com', origin)).toBeNull();
+    expect(getSafeReturnUrl('/videos\u0000', origin)).toBeNull();
+  });
+
+  it('should reject the authentication pages', () => {
+    expect(getSafeReturnUrl('/auth/login', origin)).toBeNull();
+    expect(getSafeReturnUrl('/auth/register?email=a@b.de', origin)).toBeNull();
+  });
+});
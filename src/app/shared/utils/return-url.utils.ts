@@ -0,0 +1,36 @@
+/**
+ * The query parameter of the login page holding the page to return to after logging in.
+ */
+export const RETURN_URL_PARAM = 'returnUrl';
+
+/**
+ * Validates a URL to return to after logging in, so the parameter cannot be abused
+ * as an open redirect (e.g. `//evil.example` or `https://evil.example`).
+ * Only paths of this application are accepted, except for the authentication pages.
+ *
+ * @param {string | null | undefined} value The raw `returnUrl` parameter.
+ * @param {string} [origin=window.location.origin] The origin of the application.
+ * @returns {string | null} The path (with query and fragment) to navigate to, or `null` if the
+ * value is missing or unsafe.
+ */
+export function getSafeReturnUrl(
+  value: string | null | undefined,
+  origin = window.location.origin
+): string | null {
+  // Protocol-relative URLs ('//host') and backslashes, which browsers treat like slashes,
+  // would leave the application; control characters are stripped by the URL parser.
+  if (!value || !value.startsWith('/') || /^\/[/\\]|\\|[\u0000-\u001f]/.test(value)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== origin || url.pathname.startsWith('/auth/')) {
+    return null;
+  }
+  return url.pathname + url.search + url.hash;
+}
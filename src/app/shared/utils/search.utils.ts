@@ -0,0 +1,19 @@
+/**
+ * Splits a search query into its lowercased terms.
+ *
+ * @param {string | null | undefined} query The query as typed by the user.
+ * @returns {string[]} The terms, e.g. `['night', 'runner']` for "Night  Runner".
+ */
+export function getSearchTerms(query: string | null | undefined): string[] {
+  return (query ?? '').toLowerCase().split(/\s+/).filter((term) => term.length > 0);
+}
+
+/**
+ * Escapes a string for literal use within a regular expression.
+ *
+ * @param {string} text The text to escape.
+ * @returns {string} The escaped text.
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,73 @@
+import { ThumbnailCue, ThumbnailFrame, ThumbnailTrack } from '../interfaces/player.interfaces';
+
+/**
+ * Parses a WebVTT thumbnail track. Each cue's text is an image URL, optionally with a
+ * media fragment selecting a region of a sprite sheet (`sprite.jpg#xywh=160,0,160,90`).
+ * Relative image URLs are resolved against the URL of the track. Cues without a region
+ * show the whole image, so their size is left at 0.
+ *
+ * @param {string} text The content of the `.vtt` file.
+ * @param {string} trackUrl The absolute URL of the `.vtt` file.
+ * @returns {ThumbnailCue[]} The cues, in the order of the file.
+ */
+export function parseThumbnailVtt(text: string, trackUrl: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map((line) => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    const reference = lines[timingIndex + 1];
+    if (timingIndex === -1 || !reference) continue;
+
+    const [start, end] = lines[timingIndex].split('-->').map((time) => parseVttTime(time.trim().split(/\s/)[0]));
+    const [image, fragment] = reference.split('#xywh=');
+    const [x, y, width, height] = (fragment ?? '').split(',').map(Number);
+
+    cues.push({
+      start,
+      end,
+      frame: {
+        url: new URL(image, trackUrl).href,
+        x: x || 0,
+        y: y || 0,
+        width: width || 0,
+        height: height || 0,
+      },
+    });
+  }
+  return cues;
+}
+
+/**
+ * Finds the preview frame for a point in time.
+ *
+ * @param {ThumbnailTrack} track The preview frames of the video.
+ * @param {number} time The time in seconds.
+ * @returns {ThumbnailFrame | null} The frame, or `null` if the track has none for this time.
+ */
+export function findThumbnailFrame(track: ThumbnailTrack, time: number): ThumbnailFrame | null {
+  if (track.kind === 'vtt') {
+    return track.cues.find((cue) => cue.start <= time && time < cue.end)?.frame ?? null;
+  }
+
+  const { url, interval, columns, width, height } = track.sprite;
+  const index = Math.max(0, Math.floor(time / interval));
+  return {
+    url,
+    x: (index % columns) * width,
+    y: Math.floor(index / columns) * height,
+    width,
+    height,
+  };
+}
+
+/**
+ * Converts a WebVTT timestamp (`hh:mm:ss.ttt` or `mm:ss.ttt`) into seconds.
+ *
+ * @param {string} time The timestamp.
+ * @returns {number} The time in seconds.
+ */
+function parseVttTime(time: string): number {
+  return time.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
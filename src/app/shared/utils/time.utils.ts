@@ -0,0 +1,38 @@
+/**
+ * Formats a duration in seconds as a clock-style time string.
+ *
+ * @param {number} totalSeconds The duration in seconds.
+ * @returns {string} The formatted time, e.g. "23:14" or "1:02:03".
+ */
+export function formatTime(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds || 0));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+}
+
+/**
+ * Formats a playback rate for display.
+ *
+ * @param {number} rate The playback rate, 1 being normal speed.
+ * @returns {string} The formatted rate, e.g. "1,25×".
+ */
+export function formatPlaybackRate(rate: number): string {
+  return `${rate.toLocaleString('de-DE')}×`;
+}
+
+/**
+ * Parses the start time of a shared link (the `t` query parameter).
+ *
+ * @param {string | null} value The raw parameter value, in whole seconds (e.g. "754").
+ * @returns {number | null} The start time in seconds, or `null` if the value is missing or invalid.
+ */
+export function parseStartTime(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
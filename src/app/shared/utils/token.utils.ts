@@ -0,0 +1,22 @@
+/**
+ * Reads the expiry of a JSON Web Token. The token is only decoded, not verified, which is
+ * enough to know when the backend will stop accepting it.
+ *
+ * @param {string | null | undefined} token The encoded token.
+ * @returns {number | null} The expiry as a timestamp in milliseconds, or `null` if the value
+ * is not a token with an `exp` claim.
+ */
+export function getTokenExpiry(token: string | null | undefined): number | null {
+  const payload = token?.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    // The payload is base64url-encoded JSON.
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims?.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { provideMockBackend } from '../mock/provide-mock-backend';
+
+import { VideoHeader } from './video-header';
+
+describe('VideoHeader', () => {
+  let component: VideoHeader;
+  let fixture: ComponentFixture<VideoHeader>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [VideoHeader],
+      providers: [provideRouter([]), provideMockBackend()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(VideoHeader);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  SimpleChanges,
+  ViewChild,
+} from '@angular/core';
+import { AsyncPipe } from '@angular/common';
+import { Router, RouterModule } from '@angular/router';
+import { Observable, Subject, Subscription } from 'rxjs';
+import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+import { User } from '../interfaces/api.interfaces';
+
+/**
+ * @Component
+ * The header of the protected video pages.
+ *
+ * @description
+ * Displays the application logo, a search field, the signed-in user and the logout button. Typing into the
+ * search field opens the `videos/search` page with the query in the URL; the query is
+ * debounced, so the URL and the results only update once the user pauses typing.
+ */
+@Component({
+  selector: 'app-video-header',
+  imports: [RouterModule, AsyncPipe],
+  templateUrl: './video-header.html',
+  styleUrl: './video-header.scss'
+})
+export class VideoHeader implements OnInit, OnChanges, AfterViewInit, OnDestroy {
+  /**
+   * The search query shown in the search field, e.g. taken from the URL.
+   * @default ''
+   */
+  @Input() query: string = '';
+  /**
+   * Focuses the search field once the header is rendered, so typing continues
+   * seamlessly after the search page has been opened.
+   * @default false
+   */
+  @Input() focusSearch: boolean = false;
+
+  /**
+   * A reference to the search input element.
+   * @ViewChild
+   */
+  @ViewChild('searchInput') searchInput!: ElementRef<HTMLInputElement>;
+
+  /**
+   * The signed-in user, shown next to the logout button.
+   * @type {Observable<User | null>}
+   */
+  readonly currentUser$: Observable<User | null>;
+
+  /**
+   * The delay in milliseconds after the last keystroke before a search is run.
+   * @private
+   */
+  private readonly SEARCH_DEBOUNCE_MS = 300;
+  /**
+   * Emits the value of the search field on every keystroke.
+   * @private
+   */
+  private searchTerms = new Subject<string>();
+  /**
+   * The subscription to the debounced search terms.
+   * @private
+   */
+  private subscription = new Subscription();
+
+  /**
+   * Constructs the VideoHeader component.
+   * @param {Router} router Angular service for navigation.
+   * @param {AuthService} authService Service providing the signed-in user and logging the user out.
+   */
+  constructor(
+    private router: Router,
+    private authService: AuthService
+  ) {
+    this.currentUser$ = this.authService.currentUser$;
+  }
+
+  /**
+   * Angular lifecycle hook. Runs a search whenever the user pauses typing.
+   */
+  ngOnInit(): void {
+    this.subscription.add(
+      this.searchTerms
+        .pipe(debounceTime(this.SEARCH_DEBOUNCE_MS), distinctUntilChanged())
+        .subscribe((query) => this.search(query))
+    );
+  }
+
+  /**
+   * Angular lifecycle hook. Shows a changed query (e.g. after navigating back) in the
+   * search field, unless the user is typing in it, so the debounced URL update does not
+   * overwrite newer keystrokes.
+   * @param {SimpleChanges} changes The changed input properties.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    const input = this.searchInput?.nativeElement;
+    if (changes['query'] && input && document.activeElement !== input) {
+      input.value = this.query;
+    }
+  }
+
+  /**
+   * Angular lifecycle hook. Shows the initial query and focuses the search field if requested.
+   */
+  ngAfterViewInit(): void {
+    this.searchInput.nativeElement.value = this.query;
+    if (this.focusSearch) {
+      this.searchInput.nativeElement.focus();
+    }
+  }
+
+  /**
+   * Angular lifecycle hook. Cleans up the search subscription.
+   */
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Handles the input event of the search field.
+   * @param {Event} event The input event.
+   */
+  onSearchInput(event: Event): void {
+    this.searchTerms.next((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Runs the search immediately when the search form is submitted (e.g. with Enter).
+   * @param {Event} event The submit event, prevented to not reload the page.
+   */
+  onSearchSubmit(event: Event): void {
+    event.preventDefault();
+    this.search(this.searchInput.nativeElement.value);
+  }
+
+  /**
+   * Opens the search page for a query. On the search page itself, the query replaces
+   * the current URL and keeps the selected filters.
+   * @private
+   * @param {string} query The search query.
+   */
+  private search(query: string): void {
+    const onSearchPage = this.router.url.startsWith('/videos/search');
+
+    this.router.navigate(['/videos/search'], {
+      queryParams: { q: query.trim() || null },
+      queryParamsHandling: onSearchPage ? 'merge' : '',
+      replaceUrl: onSearchPage,
+    });
+  }
+
+  /**
+   * Gets the name to show for a user: the full name if known, otherwise the email address.
+   * @param {User} user The signed-in user.
+   * @returns {string} The display name.
+   */
+  getDisplayName(user: User): string {
+    const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+    return name || user.email;
+  }
+
+  /**
+   * Logs the user out by clearing authentication data and navigating to the login page.
+   */
+  logout(): void {
+    this.authService.logout();
+    this.router.navigate(['/auth/login']);
+  }
+}
@@ -1,6 +1,15 @@
 import { bootstrapApplication } from '@angular/platform-browser';
 import { appConfig } from './app/app.config';
 import { App } from './app/app';
+import { loadAppConfig, provideAppConfig } from './app/shared/config/app-config';
 
-bootstrapApplication(App, appConfig)
+// The runtime configuration is loaded before bootstrapping, so every service
+// can read it synchronously from the APP_CONFIG injection token.
+loadAppConfig()
+  .then((config) =>
+    bootstrapApplication(App, {
+      ...appConfig,
+      providers: [...appConfig.providers, provideAppConfig(config)],
+    })
+  )
   .catch((err) => console.error(err));